@@ -1,5 +1,15 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { MemoryCacheProvider, buildCacheKey, CacheKeys } from '../services/cache.service.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import {
+  MemoryCacheProvider,
+  TieredCacheProvider,
+  type CacheInvalidationBus,
+  SwrCache,
+  LastKnownGoodCache,
+  buildCacheKey,
+  CacheKeys,
+} from '../services/cache.service.js';
+import { AppError } from '../utils/app-error.js';
 
 describe('MemoryCacheProvider', () => {
   let cache: MemoryCacheProvider;
@@ -46,6 +56,14 @@ describe('MemoryCacheProvider', () => {
     });
   });
 
+  describe('setIfAbsent', () => {
+    it('stores only when the key is missing', async () => {
+      expect(await cache.setIfAbsent('key', 'first', 60)).toBe(true);
+      expect(await cache.setIfAbsent('key', 'second', 60)).toBe(false);
+      expect(await cache.get<string>('key')).toBe('first');
+    });
+  });
+
   describe('delete', () => {
     it('returns false when deleting a missing key', async () => {
       expect(await cache.delete('nope')).toBe(false);
@@ -80,6 +98,23 @@ describe('MemoryCacheProvider', () => {
     });
   });
 
+  describe('locks', () => {
+    it('grants a lock to one holder at a time', async () => {
+      const token = await cache.acquireLock('lock:a', 1000);
+      expect(token).toEqual(expect.any(String));
+      expect(await cache.acquireLock('lock:a', 1000)).toBeNull();
+
+      await cache.releaseLock('lock:a', token!);
+      expect(await cache.acquireLock('lock:a', 1000)).toEqual(expect.any(String));
+    });
+
+    it('ignores releases with the wrong token', async () => {
+      await cache.acquireLock('lock:a', 1000);
+      await cache.releaseLock('lock:a', 'not-the-token');
+      expect(await cache.acquireLock('lock:a', 1000)).toBeNull();
+    });
+  });
+
   describe('TTL expiration', () => {
     it('expires a key after TTL elapses', async () => {
       const shortTtlCache = new MemoryCacheProvider(1);
@@ -95,6 +130,344 @@ describe('MemoryCacheProvider', () => {
   });
 });
 
+describe('TieredCacheProvider', () => {
+  // Stands in for Redis pub/sub: every subscriber sees every published message
+  function createBus(): CacheInvalidationBus {
+    const emitter = new EventEmitter();
+    return {
+      publish: async (message) => {
+        emitter.emit('message', message);
+      },
+      subscribe: (handler) => {
+        emitter.on('message', handler);
+      },
+    };
+  }
+
+  let l2: MemoryCacheProvider;
+  let bus: CacheInvalidationBus;
+  const options = { l1MaxEntries: 2, l1TtlSeconds: 60 };
+
+  beforeEach(() => {
+    l2 = new MemoryCacheProvider(300);
+    bus = createBus();
+  });
+
+  it('serves repeat reads from L1 without touching L2', async () => {
+    const tiered = new TieredCacheProvider(l2, bus, options);
+    await l2.set('key', { big: 'blob' }, 60);
+    const l2Get = vi.spyOn(l2, 'get');
+
+    await tiered.get('key');
+    await tiered.get('key');
+
+    expect(l2Get).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the least recently used L1 entry', async () => {
+    const tiered = new TieredCacheProvider(l2, bus, options);
+    await tiered.set('a', 1, 60);
+    await tiered.set('b', 2, 60);
+    await tiered.get('a'); // a is now more recent than b
+    await tiered.set('c', 3, 60);
+
+    const l2Get = vi.spyOn(l2, 'get');
+    await tiered.get('a');
+    await tiered.get('b');
+
+    expect(l2Get).toHaveBeenCalledTimes(1);
+    expect(l2Get).toHaveBeenCalledWith('b');
+  });
+
+  it('drops L1 entries on every instance when clear() runs', async () => {
+    const instanceA = new TieredCacheProvider(l2, bus, options);
+    const instanceB = new TieredCacheProvider(l2, bus, options);
+    await instanceA.set('catalog:LOC1', 'v1', 60);
+    await instanceB.get('catalog:LOC1'); // warm B's L1
+
+    await instanceA.clear('catalog:');
+
+    expect(await instanceB.get('catalog:LOC1')).toBeNull();
+  });
+
+  it('broadcasts single-key deletes', async () => {
+    const instanceA = new TieredCacheProvider(l2, bus, options);
+    const instanceB = new TieredCacheProvider(l2, bus, options);
+    await instanceA.set('snapshot:catalog', 'v1', 60);
+    await instanceB.get('snapshot:catalog');
+
+    await instanceA.delete('snapshot:catalog');
+
+    expect(await instanceB.get('snapshot:catalog')).toBeNull();
+  });
+
+  it('checks L2 for setIfAbsent so a key set by another instance is kept', async () => {
+    const instanceA = new TieredCacheProvider(l2, bus, options);
+    const instanceB = new TieredCacheProvider(l2, bus, options);
+    await instanceA.set('lkg:locations', 'newer', 60);
+
+    expect(await instanceB.setIfAbsent('lkg:locations', 'older', 60)).toBe(false);
+    expect(await instanceB.get('lkg:locations')).toBe('newer');
+  });
+
+  it('keeps locks in L2 so they are shared across instances', async () => {
+    const instanceA = new TieredCacheProvider(l2, bus, options);
+    const instanceB = new TieredCacheProvider(l2, bus, options);
+
+    expect(await instanceA.acquireLock('lock:key', 1000)).not.toBeNull();
+    expect(await instanceB.acquireLock('lock:key', 1000)).toBeNull();
+  });
+});
+
+describe('SwrCache', () => {
+  let provider: MemoryCacheProvider;
+
+  beforeEach(() => {
+    provider = new MemoryCacheProvider(300);
+  });
+
+  it('loads on a miss and serves fresh values from cache afterwards', async () => {
+    const swr = new SwrCache(provider, 60, 120);
+    const load = vi.fn().mockResolvedValue('v1');
+
+    expect(await swr.get('key', load)).toEqual({
+      value: 'v1',
+      freshness: 'miss',
+      storedAt: expect.any(Number),
+    });
+    expect(await swr.get('key', load)).toEqual({
+      value: 'v1',
+      freshness: 'fresh',
+      storedAt: expect.any(Number),
+    });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale values immediately and refreshes once in the background', async () => {
+    // Soft TTL of 0: every entry is stale as soon as it is written
+    const swr = new SwrCache(provider, 0, 120);
+    await swr.set('key', 'old');
+
+    let resolveLoad!: (value: string) => void;
+    const load = vi.fn(() => new Promise<string>((resolve) => (resolveLoad = resolve)));
+
+    expect(await swr.get('key', load)).toMatchObject({ value: 'old', freshness: 'stale' });
+    expect(await swr.get('key', load)).toMatchObject({ value: 'old', freshness: 'stale' });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    resolveLoad('new');
+    await vi.waitFor(async () => {
+      expect((await swr.get('key', load)).value).toBe('new');
+    });
+  });
+
+  it('keeps the stale value when the background refresh fails', async () => {
+    const swr = new SwrCache(provider, 0, 120);
+    await swr.set('key', 'old');
+    const load = vi.fn().mockRejectedValue(new Error('Square down'));
+
+    expect((await swr.get('key', load)).value).toBe('old');
+    await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(1));
+    expect((await swr.get('key', load)).value).toBe('old');
+  });
+
+  it('waits for a fresh value instead of serving stale with getFresh', async () => {
+    const swr = new SwrCache(provider, 0, 120);
+    await swr.set('key', 'old');
+
+    const result = await swr.getFresh('key', () => Promise.resolve('new'));
+
+    expect(result).toMatchObject({ value: 'new', freshness: 'miss' });
+  });
+
+  it('serves fresh entries from cache with getFresh', async () => {
+    const swr = new SwrCache(provider, 60, 120);
+    await swr.set('key', 'v1');
+    const load = vi.fn();
+
+    expect((await swr.getFresh('key', load)).value).toBe('v1');
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('coalesces concurrent misses into one load', async () => {
+    const swr = new SwrCache(provider, 60, 120);
+    const load = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return 'v1';
+    });
+
+    const results = await Promise.all([
+      swr.get('key', load),
+      swr.get('key', load),
+      swr.get('key', load),
+    ]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.value)).toEqual(['v1', 'v1', 'v1']);
+    expect(await provider.has('lock:key')).toBe(false);
+  });
+
+  it('waits for another instance holding the load lock instead of loading again', async () => {
+    // Two SwrCache instances over one shared provider stand in for two servers on one Redis
+    const instanceA = new SwrCache(provider, 60, 120);
+    const instanceB = new SwrCache(provider, 60, 120);
+    const loadA = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return 'from A';
+    });
+    const loadB = vi.fn().mockResolvedValue('from B');
+
+    const pendingA = instanceA.get('key', loadA);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const resultB = await instanceB.get('key', loadB);
+
+    expect(resultB.value).toBe('from A');
+    expect(loadB).not.toHaveBeenCalled();
+    expect((await pendingA).value).toBe('from A');
+  });
+
+  it('waits for the refreshed value rather than returning the stale one', async () => {
+    const instanceA = new SwrCache(provider, 60, 120);
+    const instanceB = new SwrCache(provider, 60, 120);
+    await provider.set('key', { value: 'old', stale_at: Date.now() - 1 }, 120);
+
+    const pendingA = instanceA.getFresh('key', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return 'new';
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const loadB = vi.fn().mockResolvedValue('from B');
+
+    expect((await instanceB.getFresh('key', loadB)).value).toBe('new');
+    expect(loadB).not.toHaveBeenCalled();
+    await pendingA;
+  });
+
+  it('checks only the lock while waiting and reads the entry once it is released', async () => {
+    const instanceA = new SwrCache(provider, 60, 120);
+    const instanceB = new SwrCache(provider, 60, 120);
+    const pendingA = instanceA.get('key', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return 'from A';
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const get = vi.spyOn(provider, 'get');
+
+    expect((await instanceB.get('key', vi.fn())).value).toBe('from A');
+    // One read for the initial miss, one after the lock is released
+    expect(get.mock.calls.filter(([key]) => key === 'key')).toHaveLength(2);
+    await pendingA;
+  });
+
+  it('holds the load lock for the load timeout plus a margin', async () => {
+    const acquireLock = vi.spyOn(provider, 'acquireLock');
+    const swr = new SwrCache(provider, 60, 120, undefined, 90_000);
+
+    await swr.get('key', () => Promise.resolve('v1'));
+
+    expect(acquireLock).toHaveBeenCalledWith('lock:key', 100_000);
+  });
+
+  it('loads itself when the lock holder gives up without a value', async () => {
+    const instanceA = new SwrCache(provider, 60, 120);
+    const instanceB = new SwrCache(provider, 60, 120);
+
+    const failedA = instanceA
+      .get('key', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        throw new Error('Square down');
+      })
+      .catch((err: Error) => err);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const resultB = await instanceB.get('key', async () => 'from B');
+
+    expect(await failedA).toEqual(new Error('Square down'));
+    expect(resultB.value).toBe('from B');
+  });
+
+  it('updates a value only after a load holding the lock has written it', async () => {
+    const instanceA = new SwrCache(provider, 60, 120);
+    const instanceB = new SwrCache(provider, 60, 120);
+    await provider.set('key', { value: 'old', stale_at: Date.now() - 1 }, 120);
+
+    const pendingA = instanceA.getFresh('key', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return 'new';
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const patched = await instanceB.update<string, string>('key', async (current) => ({
+      value: `${current}+patch`,
+      result: current,
+    }));
+
+    expect(patched).toBe('new');
+    expect((await instanceB.get('key', vi.fn())).value).toBe('new+patch');
+    expect(await provider.has('lock:key')).toBe(false);
+    await pendingA;
+  });
+
+  it('does not update or write without a cached value', async () => {
+    const swr = new SwrCache(provider, 60, 120);
+    const update = vi.fn();
+
+    expect(await swr.update('key', update)).toBeNull();
+    expect(update).not.toHaveBeenCalled();
+    expect(await provider.has('key')).toBe(false);
+    expect(await provider.has('lock:key')).toBe(false);
+  });
+
+  it('propagates load errors on a miss', async () => {
+    const swr = new SwrCache(provider, 60, 120);
+    await expect(swr.get('key', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await provider.has('key')).toBe(false);
+  });
+
+  it('serves the last-known-good copy when the load fails upstream', async () => {
+    const swr = new SwrCache(provider, 60, 120, new LastKnownGoodCache(provider, 3600));
+    await swr.get('key', () => Promise.resolve('v1'));
+    await provider.delete('key');
+
+    const unavailable = () => Promise.reject(AppError.unavailable('Square is down'));
+    expect(await swr.get('key', unavailable)).toEqual({ value: 'v1', freshness: 'degraded' });
+    // The fallback is not written back, so the next request tries the load again
+    expect(await provider.has('key')).toBe(false);
+  });
+
+  it('does not fall back for non-upstream errors or without a last-known-good copy', async () => {
+    const swr = new SwrCache(provider, 60, 120, new LastKnownGoodCache(provider, 3600));
+    await swr.get('key', () => Promise.resolve('v1'));
+    await provider.delete('key');
+
+    await expect(
+      swr.get('key', () => Promise.reject(AppError.badRequest('bad input'))),
+    ).rejects.toThrow('bad input');
+    await expect(
+      swr.get('other', () => Promise.reject(AppError.upstream('Square failed'))),
+    ).rejects.toThrow('Square failed');
+  });
+
+  it('does not replace a complete last-known-good copy with a partial one', async () => {
+    const swr = new SwrCache(provider, 60, 120, new LastKnownGoodCache(provider, 3600));
+    await swr.get('key', () => Promise.resolve({ items: ['a', 'b'] }));
+    await swr.set('key', { items: [], partial: true });
+    await provider.delete('key');
+
+    const unavailable = () => Promise.reject(AppError.unavailable('Square is down'));
+    expect(await swr.get('key', unavailable)).toEqual({
+      value: { items: ['a', 'b'] },
+      freshness: 'degraded',
+    });
+  });
+
+  it('keeps a partial value when there is no complete copy yet', async () => {
+    const swr = new SwrCache(provider, 60, 120, new LastKnownGoodCache(provider, 3600));
+    await swr.set('key', { items: ['a'], partial: true });
+
+    expect(await provider.get('lkg:key')).toEqual({ items: ['a'], partial: true });
+  });
+});
+
 describe('buildCacheKey', () => {
   it('joins parts with colons', () => {
     expect(buildCacheKey('catalog', 'LOC123')).toBe('catalog:LOC123');
@@ -117,4 +490,8 @@ describe('CacheKeys helpers', () => {
   it('builds categories key for a location', () => {
     expect(CacheKeys.categories('LOC1')).toBe('categories:LOC1');
   });
+
+  it('builds the shared catalog snapshot key', () => {
+    expect(CacheKeys.catalogSnapshot()).toBe('snapshot:catalog');
+  });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type { CacheInvalidationBus } from '../services/cache.service.js';
+import { CatalogEventBus } from '../services/catalog-events.service.js';
+
+// Stands in for Redis pub/sub: every subscriber of a channel sees every message published on it
+function createRelay(): CacheInvalidationBus {
+  const emitter = new EventEmitter();
+  return {
+    publish: async (message, channel = 'cache:invalidate') => {
+      emitter.emit(channel, message);
+    },
+    subscribe: (handler, channel = 'cache:invalidate') => {
+      emitter.on(channel, handler);
+    },
+  };
+}
+
+describe('CatalogEventBus', () => {
+  it('notifies only subscribers of affected locations', () => {
+    const bus = new CatalogEventBus();
+    const loc1 = vi.fn();
+    const loc2 = vi.fn();
+    bus.subscribe('LOC1', loc1);
+    bus.subscribe('LOC2', loc2);
+
+    bus.publish({ type: 'inventory', locations: ['LOC1'], event_id: 'evt_1' });
+
+    expect(loc1).toHaveBeenCalledOnce();
+    expect(loc1).toHaveBeenCalledWith({
+      type: 'inventory',
+      location_id: 'LOC1',
+      event_id: 'evt_1',
+      changed_at: expect.any(String),
+    });
+    expect(loc2).not.toHaveBeenCalled();
+  });
+
+  it('notifies every subscriber when all locations are affected', () => {
+    const bus = new CatalogEventBus();
+    const loc1 = vi.fn();
+    const loc2 = vi.fn();
+    bus.subscribe('LOC1', loc1);
+    bus.subscribe('LOC2', loc2);
+
+    bus.publish({ type: 'catalog', locations: 'all', event_id: 'evt_2' });
+
+    expect(loc1).toHaveBeenCalledWith(expect.objectContaining({ location_id: 'LOC1' }));
+    expect(loc2).toHaveBeenCalledWith(expect.objectContaining({ location_id: 'LOC2' }));
+  });
+
+  it('stops notifying after unsubscribing', () => {
+    const bus = new CatalogEventBus();
+    const listener = vi.fn();
+    const unsubscribe = bus.subscribe('LOC1', listener);
+    expect(bus.subscriberCount).toBe(1);
+
+    unsubscribe();
+    bus.publish({ type: 'location', locations: ['LOC1'], event_id: 'evt_3' });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.subscriberCount).toBe(0);
+  });
+
+  it('relays changes to subscribers on other instances, once each', async () => {
+    // Two buses over one relay stand in for two servers on one Redis
+    const relay = createRelay();
+    const instanceA = new CatalogEventBus(relay);
+    const instanceB = new CatalogEventBus(relay);
+    const onA = vi.fn();
+    const onB = vi.fn();
+    instanceA.subscribe('LOC1', onA);
+    instanceB.subscribe('LOC1', onB);
+    const invalidations = vi.fn();
+    relay.subscribe(invalidations);
+
+    instanceA.publish({ type: 'catalog', locations: ['LOC1'], event_id: 'evt_4' });
+    await vi.waitFor(() => expect(onB).toHaveBeenCalledOnce());
+
+    expect(onA).toHaveBeenCalledOnce();
+    expect(onB).toHaveBeenCalledWith(onA.mock.calls[0][0]);
+    // Catalog changes stay off the cache invalidation channel
+    expect(invalidations).not.toHaveBeenCalled();
+  });
+});
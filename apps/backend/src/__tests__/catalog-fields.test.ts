@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { CategoryGroup, MenuItem } from '@per-diem/shared-types';
+import {
+  compactCatalog,
+  itemFieldSelector,
+  selectCatalogFields,
+} from '../utils/catalog-fields.js';
+
+const latte: MenuItem = {
+  id: 'LATTE',
+  name: 'Latte',
+  description: 'Espresso and steamed milk',
+  category: 'Coffee',
+  variations: [
+    {
+      id: 'LATTE_SMALL',
+      name: 'Small',
+      pricing_type: 'FIXED_PRICING',
+      priceDollars: 4.5,
+      priceFormatted: '$4.50',
+      price_amount: 450,
+      price_currency: 'USD',
+      is_available: true,
+    },
+  ],
+};
+
+const groups: CategoryGroup[] = [{ category: 'Coffee', categoryId: 'CAT_COFFEE', items: [latte] }];
+
+describe('itemFieldSelector', () => {
+  it('returns items untouched without fields', () => {
+    expect(itemFieldSelector(undefined)(latte)).toBe(latte);
+  });
+
+  it('keeps the id and the requested fields', () => {
+    expect(itemFieldSelector(['name'])(latte)).toEqual({ id: 'LATTE', name: 'Latte' });
+  });
+
+  it('keeps whole variations for `variations`', () => {
+    expect(itemFieldSelector(['variations'])(latte).variations).toEqual(latte.variations);
+  });
+
+  it('keeps only the named variation fields for `variations.<field>`', () => {
+    expect(itemFieldSelector(['variations.priceFormatted'])(latte)).toEqual({
+      id: 'LATTE',
+      variations: [{ id: 'LATTE_SMALL', priceFormatted: '$4.50' }],
+    });
+  });
+});
+
+describe('selectCatalogFields', () => {
+  it('trims every item and keeps the groups', () => {
+    expect(selectCatalogFields(groups, ['name'])).toEqual([
+      { category: 'Coffee', categoryId: 'CAT_COFFEE', items: [{ id: 'LATTE', name: 'Latte' }] },
+    ]);
+  });
+});
+
+describe('compactCatalog', () => {
+  it('lists categories once and references them by ID', () => {
+    const compact = compactCatalog({ categories: groups, version: 7 });
+
+    expect(compact.categories).toEqual([{ id: 'CAT_COFFEE', name: 'Coffee', item_count: 1 }]);
+    expect(compact.items).toHaveLength(1);
+    expect(compact.items[0]).toMatchObject({ id: 'LATTE', category_id: 'CAT_COFFEE' });
+    expect(compact.items[0]).not.toHaveProperty('category');
+    expect(compact.version).toBe(7);
+  });
+});
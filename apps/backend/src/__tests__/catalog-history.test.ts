@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { CategoryGroup, MenuItem } from '@per-diem/shared-types';
+import { CacheKeys, MemoryCacheProvider } from '../services/cache.service.js';
+import {
+  CatalogHistory,
+  diffCatalog,
+  fingerprintCatalog,
+} from '../services/catalog-history.service.js';
+
+const item = (id: string, price: number): MenuItem => ({
+  id,
+  name: id,
+  category: 'Coffee',
+  variations: [
+    {
+      id: `${id}_VAR`,
+      name: 'Regular',
+      pricing_type: 'FIXED_PRICING',
+      priceDollars: price / 100,
+      priceFormatted: `$${(price / 100).toFixed(2)}`,
+      price_amount: price,
+      price_currency: 'USD',
+    },
+  ],
+});
+
+const coffee = (...items: MenuItem[]): CategoryGroup => ({
+  category: 'Coffee',
+  categoryId: 'CAT_COFFEE',
+  items,
+});
+
+describe('diffCatalog', () => {
+  it('sorts items into added, updated and removed', () => {
+    const before = fingerprintCatalog(1, [coffee(item('LATTE', 450), item('MOCHA', 500))]);
+
+    const diff = diffCatalog(before, [coffee(item('LATTE', 475), item('CORTADO', 400))]);
+
+    expect(diff.items.added.map((i) => i.id)).toEqual(['CORTADO']);
+    expect(diff.items.updated.map((i) => i.id)).toEqual(['LATTE']);
+    expect(diff.items.removed).toEqual(['MOCHA']);
+  });
+
+  it('reports categories whose name or item count changed', () => {
+    const before = fingerprintCatalog(1, [coffee(item('LATTE', 450))]);
+
+    const diff = diffCatalog(before, [
+      coffee(item('LATTE', 450), item('MOCHA', 500)),
+      { category: 'Bakery', categoryId: 'CAT_BAKERY', items: [item('SCONE', 300)] },
+    ]);
+
+    expect(diff.categories.added).toEqual([{ id: 'CAT_BAKERY', name: 'Bakery', item_count: 1 }]);
+    expect(diff.categories.updated).toEqual([{ id: 'CAT_COFFEE', name: 'Coffee', item_count: 2 }]);
+    expect(diff.categories.removed).toEqual([]);
+  });
+});
+
+describe('CatalogHistory', () => {
+  let cache: MemoryCacheProvider;
+  let history: CatalogHistory;
+
+  beforeEach(() => {
+    cache = new MemoryCacheProvider(300);
+    history = new CatalogHistory(cache, 3, 3600);
+  });
+
+  it('keeps the version for unchanged content', async () => {
+    expect(await history.record('LOC1', 100, [coffee(item('LATTE', 450))])).toBe(100);
+    expect(await history.record('LOC1', 100, [coffee(item('LATTE', 450))])).toBe(100);
+    expect(await history.record('LOC1', 200, [coffee(item('LATTE', 450))])).toBe(100);
+  });
+
+  it('moves the version forward when content changes without a new Square version', async () => {
+    await history.record('LOC1', 100, [coffee(item('LATTE', 450))]);
+
+    expect(await history.record('LOC1', 100, [coffee(item('LATTE', 475))])).toBe(101);
+  });
+
+  it('lists changes since a kept version', async () => {
+    await history.record('LOC1', 100, [coffee(item('LATTE', 450))]);
+    const current = [coffee(item('LATTE', 475))];
+    const version = await history.record('LOC1', 200, current);
+
+    const changes = await history.changesSince('LOC1', 100, { categories: current, version });
+
+    expect(changes).toMatchObject({ since_version: 100, version: 200, resync_required: false });
+    expect(changes.items?.updated.map((i) => i.id)).toEqual(['LATTE']);
+  });
+
+  it('returns an empty diff for the current version', async () => {
+    const current = [coffee(item('LATTE', 450))];
+    const version = await history.record('LOC1', 100, current);
+
+    const changes = await history.changesSince('LOC1', version, { categories: current, version });
+
+    expect(changes.items).toEqual({ added: [], updated: [], removed: [] });
+  });
+
+  it('asks for a resync once a version has aged out', async () => {
+    for (const version of [100, 200, 300, 400]) {
+      await history.record('LOC1', version, [coffee(item('LATTE', version + 150))]);
+    }
+
+    const changes = await history.changesSince('LOC1', 100, {
+      categories: [coffee(item('LATTE', 550))],
+      version: 400,
+    });
+
+    expect(changes).toEqual({
+      location_id: 'LOC1',
+      since_version: 100,
+      version: 400,
+      resync_required: true,
+    });
+    expect(await cache.get(CacheKeys.catalogHistory('LOC1'))).toHaveLength(3);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { compressResponses } from '../middleware/compression.middleware.js';
+
+const catalog = { categories: Array.from({ length: 50 }, (_, i) => ({ category: `Cat ${i}` })) };
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(compressResponses);
+  app.get('/catalog', (_req, res) => {
+    res.json(catalog);
+  });
+  app.get('/stream', (_req, res) => {
+    res.set('Content-Type', 'text/event-stream');
+    res.flushHeaders();
+    res.end(`data: ${JSON.stringify(catalog)}\n\n`);
+  });
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const get = (path: string, acceptEncoding: string) =>
+  fetch(`${baseUrl}${path}`, { headers: { 'Accept-Encoding': acceptEncoding } });
+
+describe('compressResponses', () => {
+  it('prefers brotli when the client accepts it', async () => {
+    const res = await get('/catalog', 'gzip, deflate, br');
+
+    expect(res.headers.get('content-encoding')).toBe('br');
+    expect(await res.json()).toEqual(catalog);
+  });
+
+  it('falls back to gzip', async () => {
+    const res = await get('/catalog', 'gzip');
+
+    expect(res.headers.get('content-encoding')).toBe('gzip');
+    expect(await res.json()).toEqual(catalog);
+  });
+
+  it('leaves Server-Sent Events uncompressed', async () => {
+    const res = await get('/stream', 'gzip, br');
+
+    expect(res.headers.get('content-encoding')).toBeNull();
+    expect(await res.text()).toContain('data: ');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import {
+  etagMatches,
+  remainingMaxAge,
+  sendWithCacheHeaders,
+  weakEtag,
+} from '../utils/http-cache.js';
+
+function fakeExchange(ifNoneMatch?: string) {
+  const req = { get: vi.fn(() => ifNoneMatch) } as unknown as Request;
+  const headers: Record<string, string> = {};
+  const res = {
+    statusCode: 200,
+    body: undefined as string | undefined,
+    set(name: string, value: string) {
+      headers[name] = value;
+      return this;
+    },
+    type(value: string) {
+      headers['Content-Type'] = value;
+      return this;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    end(body?: string) {
+      this.body = body;
+      return this;
+    },
+  };
+  return { req, res, headers, response: res as unknown as Response };
+}
+
+describe('etagMatches', () => {
+  const etag = weakEtag('{"categories":[]}');
+
+  it('matches the same tag, a tag in a list, and *', () => {
+    expect(etagMatches(etag, etag)).toBe(true);
+    expect(etagMatches(`"other", ${etag}`, etag)).toBe(true);
+    expect(etagMatches('*', etag)).toBe(true);
+  });
+
+  it('is weak, and matches the tag with or without the weak prefix', () => {
+    expect(etag).toMatch(/^W\/"/);
+    expect(etagMatches(etag.slice(2), etag)).toBe(true);
+    expect(etagMatches(etag, etag.slice(2))).toBe(true);
+  });
+
+  it('does not match a missing or different tag', () => {
+    expect(etagMatches(undefined, etag)).toBe(false);
+    expect(etagMatches(weakEtag('{"categories":[1]}'), etag)).toBe(false);
+  });
+});
+
+describe('remainingMaxAge', () => {
+  it('counts down from the store time', () => {
+    expect(remainingMaxAge(10_000, 300, 10_000)).toBe(300);
+    expect(remainingMaxAge(10_000, 300, 130_500)).toBe(179);
+  });
+
+  it('is 0 once stale or when the store time is unknown', () => {
+    expect(remainingMaxAge(10_000, 300, 400_000)).toBe(0);
+    expect(remainingMaxAge(undefined, 300)).toBe(0);
+  });
+});
+
+describe('sendWithCacheHeaders', () => {
+  const body = { categories: [{ id: 'CAT1', name: 'Pizza', item_count: 2 }] };
+
+  it('sends the body with ETag, Last-Modified and Cache-Control', () => {
+    const { req, res, headers, response } = fakeExchange();
+
+    sendWithCacheHeaders(req, response, body, { lastModified: 0, maxAgeSeconds: 120 });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toBe(JSON.stringify(body));
+    expect(headers).toMatchObject({
+      ETag: weakEtag(JSON.stringify(body)),
+      'Last-Modified': 'Thu, 01 Jan 1970 00:00:00 GMT',
+      'Cache-Control': 'public, max-age=120',
+    });
+  });
+
+  it('answers 304 without a body when If-None-Match holds the ETag', () => {
+    const { req, res, headers, response } = fakeExchange(weakEtag(JSON.stringify(body)));
+
+    sendWithCacheHeaders(req, response, body, { maxAgeSeconds: 0 });
+
+    expect(res.statusCode).toBe(304);
+    expect(res.body).toBeUndefined();
+    expect(headers.ETag).toBe(weakEtag(JSON.stringify(body)));
+    expect(headers['Last-Modified']).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import type { AxiosInstance } from 'axios';
+import type {
+  SquareListLocationsResponse,
+  SquareSearchCatalogResponse,
+} from '@per-diem/shared-types';
+import { createSquareClient } from '../../services/square-client.service.js';
+import { MemoryCacheProvider } from '../../services/cache.service.js';
+import { CatalogSnapshotService } from '../../services/catalog-snapshot.service.js';
+import { LocationService } from '../../services/location.service.js';
+import { CatalogSearchService } from '../../services/catalog-search.service.js';
+import { AppError } from '../../utils/app-error.js';
+
+const SQUARE_BASE_URL = 'https://connect.squareupsandbox.com';
+
+const mockCatalogResponse: SquareSearchCatalogResponse = {
+  objects: [
+    {
+      type: 'ITEM',
+      id: 'ITEM_LATTE',
+      present_at_all_locations: true,
+      item_data: { name: 'Latte' },
+    },
+  ],
+};
+
+const mockLocationsResponse: SquareListLocationsResponse = {
+  locations: ['LOC1', 'LOC2', 'LOC3'].map((id) => ({ id, name: id, status: 'ACTIVE' })),
+};
+
+let catalogRequests = 0;
+
+const server = setupServer(
+  http.post(`${SQUARE_BASE_URL}/v2/catalog/search`, () => {
+    catalogRequests++;
+    return HttpResponse.json(mockCatalogResponse);
+  }),
+  http.get(`${SQUARE_BASE_URL}/v2/locations`, () => HttpResponse.json(mockLocationsResponse)),
+);
+
+describe('CatalogSearchService', () => {
+  let squareClient: AxiosInstance;
+  let cache: MemoryCacheProvider;
+  let snapshots: CatalogSnapshotService;
+  let search: CatalogSearchService;
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+    squareClient = createSquareClient(SQUARE_BASE_URL, 'test-token');
+    cache = new MemoryCacheProvider(300);
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    cache.clear();
+    catalogRequests = 0;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const createService = (maxIndexes?: number) => {
+    snapshots = new CatalogSnapshotService(squareClient, cache, 300);
+    search = new CatalogSearchService(
+      snapshots,
+      new LocationService(squareClient, cache, 300),
+      maxIndexes,
+    );
+  };
+
+  const indexedLocations = () =>
+    [...(search as unknown as { indexes: Map<string, unknown> }).indexes.keys()];
+
+  it('finds items at a location', async () => {
+    createService();
+
+    const { results } = await search.search('LOC1', 'latte', 10);
+
+    expect(results.map((r) => r.item.id)).toEqual(['ITEM_LATTE']);
+  });
+
+  it('rejects unknown locations without building an index', async () => {
+    createService();
+
+    const error = await search.search('LOC_UNKNOWN', 'latte', 10).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).statusCode).toBe(404);
+    expect(indexedLocations()).toEqual([]);
+  });
+
+  it('evicts the least recently searched location beyond the limit', async () => {
+    createService(2);
+
+    await search.search('LOC1', 'latte', 10);
+    await search.search('LOC2', 'latte', 10);
+    await search.search('LOC1', 'latte', 10);
+    await search.search('LOC3', 'latte', 10);
+
+    expect(indexedLocations()).toEqual(['LOC1', 'LOC3']);
+  });
+
+  it('drops only the invalidated locations\' indexes', async () => {
+    createService();
+    await search.search('LOC1', 'latte', 10);
+    await search.search('LOC2', 'latte', 10);
+
+    search.invalidate(['LOC1']);
+
+    expect(indexedLocations()).toEqual(['LOC2']);
+    await search.search('LOC1', 'latte', 10);
+    expect(indexedLocations()).toEqual(['LOC2', 'LOC1']);
+    expect(catalogRequests).toBe(1);
+  });
+
+  it('drops every index when the snapshot is refetched', async () => {
+    createService();
+    await search.search('LOC1', 'latte', 10);
+    await search.search('LOC2', 'latte', 10);
+
+    await snapshots.invalidate();
+    await new Promise((resolve) => setTimeout(resolve, 5)); // a new `updated_at` millisecond
+    await search.search('LOC1', 'latte', 10);
+
+    expect(catalogRequests).toBe(2);
+    expect(indexedLocations()).toEqual(['LOC1']);
+  });
+});
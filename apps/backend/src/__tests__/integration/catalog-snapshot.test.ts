@@ -0,0 +1,325 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import type { AxiosInstance } from 'axios';
+import type { SquareCatalogObject, SquareSearchCatalogResponse } from '@per-diem/shared-types';
+import { createSquareClient } from '../../services/square-client.service.js';
+import { MemoryCacheProvider, CacheKeys } from '../../services/cache.service.js';
+import {
+  CatalogSnapshotService,
+  affectedLocations,
+  applyCatalogChanges,
+  buildCatalogSnapshot,
+  snapshotItemAtLocation,
+  snapshotItemsAtLocation,
+} from '../../services/catalog-snapshot.service.js';
+import { groupItemsByCategory } from '../../transformers/square-catalog.transformer.js';
+
+const SQUARE_BASE_URL = 'https://connect.squareupsandbox.com';
+
+const mockCatalogResponse: SquareSearchCatalogResponse = {
+  objects: [
+    {
+      type: 'ITEM',
+      id: 'ITEM_LATTE',
+      present_at_location_ids: ['LOC1'],
+      item_data: {
+        name: 'Latte',
+        category_id: 'CAT_COFFEE',
+        image_ids: ['IMG_LATTE'],
+        variations: [
+          {
+            type: 'ITEM_VARIATION',
+            id: 'VAR_LATTE_12OZ',
+            item_variation_data: {
+              name: '12oz',
+              pricing_type: 'FIXED_PRICING',
+              price_money: { amount: 450, currency: 'USD' },
+            },
+          },
+        ],
+      },
+    },
+    {
+      type: 'ITEM',
+      id: 'ITEM_SCONE',
+      present_at_location_ids: ['LOC2'],
+      item_data: { name: 'Scone', category_id: 'CAT_BAKERY' },
+    },
+  ],
+  related_objects: [
+    { type: 'CATEGORY', id: 'CAT_COFFEE', category_data: { name: 'Coffee' } },
+    { type: 'CATEGORY', id: 'CAT_BAKERY', category_data: { name: 'Bakery' } },
+    { type: 'IMAGE', id: 'IMG_LATTE', image_data: { url: 'https://example.com/latte.jpg' } },
+  ],
+};
+
+let searchCalls = 0;
+
+const server = setupServer(
+  http.post(`${SQUARE_BASE_URL}/v2/catalog/search`, () => {
+    searchCalls++;
+    return HttpResponse.json(mockCatalogResponse);
+  }),
+);
+
+describe('Catalog Snapshot', () => {
+  let squareClient: AxiosInstance;
+  let cache: MemoryCacheProvider;
+  let service: CatalogSnapshotService;
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+    squareClient = createSquareClient(SQUARE_BASE_URL, 'test-token');
+    cache = new MemoryCacheProvider(300);
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    cache.clear();
+    searchCalls = 0;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  describe('buildCatalogSnapshot', () => {
+    it('indexes items, categories, images and variations by ID', () => {
+      const snapshot = buildCatalogSnapshot(
+        mockCatalogResponse.objects!,
+        mockCatalogResponse.related_objects!,
+      );
+
+      expect(Object.keys(snapshot.items)).toEqual(['ITEM_LATTE', 'ITEM_SCONE']);
+      expect(snapshot.categories.CAT_COFFEE.category_data.name).toBe('Coffee');
+      expect(snapshot.images.IMG_LATTE.image_data.url).toBe('https://example.com/latte.jpg');
+      expect(snapshot.variations.VAR_LATTE_12OZ.item_variation_data.name).toBe('12oz');
+    });
+
+    it('serves as the related object index for the catalog transformers', () => {
+      const snapshot = buildCatalogSnapshot(
+        mockCatalogResponse.objects!,
+        mockCatalogResponse.related_objects!,
+      );
+
+      const [group] = groupItemsByCategory(snapshotItemsAtLocation(snapshot, 'LOC1'), snapshot);
+      expect(group).toMatchObject({ category: 'Coffee', categoryId: 'CAT_COFFEE' });
+      expect(group.items[0].image_url).toBe('https://example.com/latte.jpg');
+    });
+
+    it('tracks the highest Square object version as the catalog version', () => {
+      const snapshot = buildCatalogSnapshot(
+        [{ ...mockCatalogResponse.objects![0], version: 7 }, mockCatalogResponse.objects![1]],
+        [{ type: 'CATEGORY', id: 'CAT_COFFEE', version: 9, category_data: { name: 'Coffee' } }],
+      );
+
+      expect(snapshot.version).toBe(9);
+    });
+
+    it('scopes items to a location', () => {
+      const snapshot = buildCatalogSnapshot(mockCatalogResponse.objects!, []);
+
+      expect(snapshotItemsAtLocation(snapshot, 'LOC1').map((i) => i.id)).toEqual(['ITEM_LATTE']);
+      expect(snapshotItemsAtLocation(snapshot, 'LOC2').map((i) => i.id)).toEqual(['ITEM_SCONE']);
+    });
+
+    it('looks up a single item only where it is sold', () => {
+      const snapshot = buildCatalogSnapshot(mockCatalogResponse.objects!, []);
+
+      expect(snapshotItemAtLocation(snapshot, 'ITEM_LATTE', 'LOC1')?.id).toBe('ITEM_LATTE');
+      expect(snapshotItemAtLocation(snapshot, 'ITEM_LATTE', 'LOC2')).toBeNull();
+      expect(snapshotItemAtLocation(snapshot, 'ITEM_MISSING', 'LOC1')).toBeNull();
+    });
+  });
+
+  describe('incremental changes', () => {
+    const snapshot = () =>
+      buildCatalogSnapshot(mockCatalogResponse.objects!, mockCatalogResponse.related_objects!);
+
+    const repricedLatte: SquareCatalogObject = {
+      type: 'ITEM_VARIATION',
+      id: 'VAR_LATTE_12OZ',
+      item_variation_data: {
+        item_id: 'ITEM_LATTE',
+        name: '12oz',
+        pricing_type: 'FIXED_PRICING',
+        price_money: { amount: 500, currency: 'USD' },
+      },
+    };
+
+    it('patches changed variations into their parent item', () => {
+      const patched = applyCatalogChanges(snapshot(), [repricedLatte], '2024-06-01T00:00:00Z');
+
+      expect(patched.variations.VAR_LATTE_12OZ.item_variation_data.price_money?.amount).toBe(500);
+      expect(
+        patched.items.ITEM_LATTE.item_data.variations?.[0].item_variation_data.price_money?.amount,
+      ).toBe(500);
+      expect(patched.synced_at).toBe('2024-06-01T00:00:00Z');
+
+      const bumped = applyCatalogChanges(
+        patched,
+        [{ ...repricedLatte, version: 42 }],
+        '2024-06-02T00:00:00Z',
+      );
+      expect(bumped.version).toBe(42);
+    });
+
+    it('removes deleted items along with their variations', () => {
+      const deleted: SquareCatalogObject = {
+        ...mockCatalogResponse.objects![0],
+        is_deleted: true,
+      };
+      const original = snapshot();
+      const patched = applyCatalogChanges(original, [deleted], '2024-06-01T00:00:00Z');
+
+      expect(patched.items.ITEM_LATTE).toBeUndefined();
+      expect(patched.variations.VAR_LATTE_12OZ).toBeUndefined();
+      expect(original.items.ITEM_LATTE).toBeDefined();
+    });
+
+    it('scopes changes to the locations selling the affected items', () => {
+      expect(affectedLocations(snapshot(), [repricedLatte])).toEqual(['LOC1']);
+      expect(
+        affectedLocations(snapshot(), [
+          { type: 'CATEGORY', id: 'CAT_BAKERY', category_data: { name: 'Pastries' } },
+        ]),
+      ).toEqual(['LOC2']);
+    });
+
+    it('finds the parent item of a variation that does not name it', () => {
+      const orphan: SquareCatalogObject = {
+        type: 'ITEM_VARIATION',
+        id: 'VAR_LATTE_12OZ',
+        item_variation_data: {
+          name: '12oz',
+          pricing_type: 'FIXED_PRICING',
+          price_money: { amount: 500, currency: 'USD' },
+        },
+      };
+
+      expect(affectedLocations(snapshot(), [orphan])).toEqual(['LOC1']);
+      expect(
+        applyCatalogChanges(snapshot(), [orphan], '2024-06-01T00:00:00Z').items.ITEM_LATTE.item_data
+          .variations?.[0].item_variation_data.price_money?.amount,
+      ).toBe(500);
+    });
+
+    it('includes locations an item was moved away from', () => {
+      const moved: SquareCatalogObject = {
+        ...mockCatalogResponse.objects![1],
+        present_at_location_ids: ['LOC3'],
+      };
+
+      expect(affectedLocations(snapshot(), [moved])).toEqual(['LOC2', 'LOC3']);
+    });
+
+    it('affects all locations when a changed item is sold everywhere', () => {
+      const everywhere: SquareCatalogObject = {
+        ...mockCatalogResponse.objects![1],
+        present_at_all_locations: true,
+      };
+
+      expect(affectedLocations(snapshot(), [everywhere])).toBe('all');
+    });
+  });
+
+  describe('CatalogSnapshotService', () => {
+    it('fetches from Square once and serves later reads from cache', async () => {
+      service = new CatalogSnapshotService(squareClient, cache, 300);
+
+      const first = await service.getSnapshot();
+      const second = await service.getSnapshot();
+
+      expect(searchCalls).toBe(1);
+      expect(second).toEqual(first);
+      expect(await cache.has(CacheKeys.catalogSnapshot())).toBe(true);
+    });
+
+    it('shares one Square fetch between concurrent cold reads', async () => {
+      service = new CatalogSnapshotService(squareClient, cache, 300);
+
+      await Promise.all([service.getSnapshot(), service.getSnapshot(), service.getSnapshot()]);
+
+      expect(searchCalls).toBe(1);
+    });
+
+    it('refetches after invalidation', async () => {
+      service = new CatalogSnapshotService(squareClient, cache, 300);
+
+      await service.getSnapshot();
+      await service.invalidate();
+      await service.getSnapshot();
+
+      expect(searchCalls).toBe(2);
+    });
+
+    it('serves an expired snapshot while refetching it in the background', async () => {
+      // Fresh for 0s, then served stale for up to 300s
+      service = new CatalogSnapshotService(squareClient, cache, 0, 300);
+
+      const first = await service.getSnapshot();
+      const second = await service.getSnapshot();
+
+      expect(second).toEqual(first);
+      await vi.waitFor(() => expect(searchCalls).toBe(2));
+    });
+
+    it('syncs only objects changed since the last sync', async () => {
+      server.use(
+        http.post(`${SQUARE_BASE_URL}/v2/catalog/search`, async ({ request }) => {
+          searchCalls++;
+          const body = (await request.json()) as Record<string, unknown>;
+          if (!body.begin_time) {
+            return HttpResponse.json({ ...mockCatalogResponse, latest_time: '2024-06-01T00:00:00Z' });
+          }
+          expect(body.begin_time).toBe('2024-06-01T00:00:00Z');
+          expect(body.include_deleted_objects).toBe(true);
+          return HttpResponse.json({
+            objects: [
+              { type: 'CATEGORY', id: 'CAT_BAKERY', category_data: { name: 'Pastries' } },
+            ],
+            latest_time: '2024-06-02T00:00:00Z',
+          });
+        }),
+      );
+      service = new CatalogSnapshotService(squareClient, cache, 300);
+
+      await service.getSnapshot();
+      const result = await service.syncChanges();
+      const snapshot = await service.getSnapshot();
+
+      expect(result).toEqual({ changed: 1, locations: ['LOC2'] });
+      expect(snapshot.categories.CAT_BAKERY.category_data.name).toBe('Pastries');
+      expect(snapshot.synced_at).toBe('2024-06-02T00:00:00Z');
+      expect(searchCalls).toBe(2);
+    });
+
+    it('flags the snapshot partial when the page budget runs out', async () => {
+      server.use(
+        http.post(`${SQUARE_BASE_URL}/v2/catalog/search`, () => {
+          searchCalls++;
+          return HttpResponse.json({ ...mockCatalogResponse, cursor: `page-${searchCalls}` });
+        }),
+      );
+      service = new CatalogSnapshotService(squareClient, cache, 300, undefined, {
+        maxPages: 2,
+        timeoutMs: 5_000,
+        onLimit: 'partial',
+        prefetch: false,
+      });
+
+      const snapshot = await service.getSnapshot();
+
+      expect(snapshot.partial).toBe(true);
+      expect(searchCalls).toBe(2);
+    });
+
+    it('has nothing to sync without a cached snapshot', async () => {
+      service = new CatalogSnapshotService(squareClient, cache, 300);
+
+      expect(await service.syncChanges()).toBeNull();
+      expect(searchCalls).toBe(0);
+    });
+  });
+});
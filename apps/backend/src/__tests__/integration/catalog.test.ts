@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
 import { http, HttpResponse } from 'msw';
 import { setupServer } from 'msw/node';
 import type { AxiosInstance } from 'axios';
@@ -10,8 +10,12 @@ import {
   filterItemsByLocation,
   groupItemsByCategory,
   transformCatalogItem,
+  transformCatalogItemDetail,
+  isVariationAvailableAtLocation,
   formatPrice,
+  extractDietaryTags,
 } from '../../transformers/square-catalog.transformer.js';
+import { filterCatalog } from '../../utils/catalog-filters.js';
 
 const SQUARE_BASE_URL = 'https://connect.squareupsandbox.com';
 
@@ -138,6 +142,49 @@ describe('Catalog Integration', () => {
       expect(formatPrice(0)).toBe('$0.00');
       expect(formatPrice(10050)).toBe('$100.50');
     });
+
+    it('formats in the money currency and location locale', () => {
+      expect(formatPrice(1250, 'CAD', 'en-CA')).toBe('$12.50');
+      expect(formatPrice(1250, 'CAD', 'en-US')).toBe('CA$12.50');
+      expect(formatPrice(1250, 'GBP', 'en-GB')).toBe('£12.50');
+    });
+
+    it('respects currencies without minor units', () => {
+      expect(formatPrice(1200, 'JPY', 'ja-JP')).toBe('￥1,200');
+    });
+
+    it('exposes raw minor units and currency on variations', () => {
+      const item = {
+        type: 'ITEM',
+        id: 'ITEM_TEA',
+        item_data: {
+          name: 'Cream Tea',
+          variations: [
+            {
+              type: 'ITEM_VARIATION',
+              id: 'VAR_TEA',
+              item_variation_data: {
+                name: 'Regular',
+                pricing_type: 'FIXED_PRICING',
+                price_money: { amount: 650, currency: 'GBP' },
+              },
+            },
+          ],
+        },
+      } as any;
+
+      const [variation] = transformCatalogItem(item, [], undefined, {
+        locale: 'en-GB',
+        currency: 'GBP',
+      }).variations;
+
+      expect(variation).toMatchObject({
+        priceDollars: 6.5,
+        priceFormatted: '£6.50',
+        price_amount: 650,
+        price_currency: 'GBP',
+      });
+    });
   });
 
   describe('Item transformation', () => {
@@ -157,14 +204,20 @@ describe('Catalog Integration', () => {
           {
             id: 'VAR_PIZZA_SMALL',
             name: 'Small',
+            pricing_type: 'FIXED_PRICING',
             priceDollars: 12.5,
             priceFormatted: '$12.50',
+            price_amount: 1250,
+            price_currency: 'USD',
           },
           {
             id: 'VAR_PIZZA_LARGE',
             name: 'Large',
+            pricing_type: 'FIXED_PRICING',
             priceDollars: 18.5,
             priceFormatted: '$18.50',
+            price_amount: 1850,
+            price_currency: 'USD',
           },
         ],
       });
@@ -195,6 +248,292 @@ describe('Catalog Integration', () => {
     });
   });
 
+  describe('Variable pricing', () => {
+    const variation = (data: Record<string, unknown>) =>
+      ({
+        type: 'ITEM',
+        id: 'ITEM_FISH',
+        item_data: {
+          name: 'Market Price Fish',
+          variations: [{ type: 'ITEM_VARIATION', id: 'VAR_FISH', item_variation_data: { name: 'Whole', ...data } }],
+        },
+      }) as any;
+
+    it('returns a null price for VARIABLE_PRICING instead of $0.00', () => {
+      const [v] = transformCatalogItem(variation({ pricing_type: 'VARIABLE_PRICING' }), []).variations;
+      expect(v.pricing_type).toBe('VARIABLE_PRICING');
+      expect(v.priceDollars).toBeNull();
+      expect(v.priceFormatted).toBeNull();
+    });
+
+    it('returns a null price for fixed pricing without price_money', () => {
+      const [v] = transformCatalogItem(variation({ pricing_type: 'FIXED_PRICING' }), []).variations;
+      expect(v.pricing_type).toBe('FIXED_PRICING');
+      expect(v.priceFormatted).toBeNull();
+    });
+
+    it('applies a location pricing_type override', () => {
+      const item = variation({
+        pricing_type: 'FIXED_PRICING',
+        price_money: { amount: 2400, currency: 'USD' },
+        location_overrides: [{ location_id: 'LOC_PIER', pricing_type: 'VARIABLE_PRICING' }],
+      });
+
+      expect(transformCatalogItem(item, [], 'LOC_PIER').variations[0].priceFormatted).toBeNull();
+      expect(transformCatalogItem(item, [], 'LOC_MALL').variations[0].priceFormatted).toBe('$24.00');
+    });
+  });
+
+  describe('Per-location variation pricing', () => {
+    const item = {
+      type: 'ITEM',
+      id: 'ITEM_COFFEE',
+      present_at_all_locations: true,
+      item_data: {
+        name: 'Drip Coffee',
+        variations: [
+          {
+            type: 'ITEM_VARIATION',
+            id: 'VAR_COFFEE',
+            present_at_all_locations: true,
+            item_variation_data: {
+              name: 'Regular',
+              pricing_type: 'FIXED_PRICING',
+              price_money: { amount: 300, currency: 'USD' },
+              location_overrides: [
+                { location_id: 'LOC_DOWNTOWN', price_money: { amount: 375, currency: 'USD' } },
+                { location_id: 'LOC_AIRPORT', sold_out: true },
+              ],
+            },
+          },
+        ],
+      },
+    } as any;
+
+    it('uses the base price when no location is given', () => {
+      const [variation] = transformCatalogItem(item, []).variations;
+      expect(variation.priceFormatted).toBe('$3.00');
+      expect(variation.is_available).toBeUndefined();
+    });
+
+    it('applies the location price override', () => {
+      const [variation] = transformCatalogItem(item, [], 'LOC_DOWNTOWN').variations;
+      expect(variation.priceDollars).toBe(3.75);
+      expect(variation.priceFormatted).toBe('$3.75');
+      expect(variation.is_available).toBe(true);
+    });
+
+    it('falls back to the base price at locations without an override', () => {
+      const [variation] = transformCatalogItem(item, [], 'LOC_SUBURB').variations;
+      expect(variation.priceFormatted).toBe('$3.00');
+    });
+
+    it('marks variations sold out at a location as unavailable', () => {
+      const [variation] = transformCatalogItem(item, [], 'LOC_AIRPORT').variations;
+      expect(variation.priceFormatted).toBe('$3.00');
+      expect(variation.is_available).toBe(false);
+    });
+
+    it('passes the location through when grouping', () => {
+      const [group] = groupItemsByCategory([item], [], 'LOC_DOWNTOWN');
+      expect(group.items[0].variations[0].priceFormatted).toBe('$3.75');
+    });
+  });
+
+  describe('Modifiers and item options', () => {
+    const relatedObjects = [
+      {
+        type: 'MODIFIER_LIST',
+        id: 'MODLIST_TOPPINGS',
+        modifier_list_data: {
+          name: 'Toppings',
+          selection_type: 'MULTIPLE',
+          modifiers: [
+            {
+              type: 'MODIFIER',
+              id: 'MOD_BACON',
+              modifier_data: { name: 'Bacon', price_money: { amount: 150, currency: 'USD' }, ordinal: 2 },
+            },
+            {
+              type: 'MODIFIER',
+              id: 'MOD_CHEESE',
+              modifier_data: { name: 'Extra cheese', price_money: { amount: 100, currency: 'USD' }, ordinal: 1 },
+            },
+          ],
+        },
+      },
+      {
+        type: 'MODIFIER_LIST',
+        id: 'MODLIST_SAUCE',
+        modifier_list_data: {
+          name: 'Sauce',
+          selection_type: 'SINGLE',
+          modifiers: [
+            { type: 'MODIFIER', id: 'MOD_BBQ', modifier_data: { name: 'BBQ' } },
+            { type: 'MODIFIER', id: 'MOD_MAYO', modifier_data: { name: 'Mayo' } },
+          ],
+        },
+      },
+      {
+        type: 'ITEM_OPTION',
+        id: 'OPT_MILK',
+        item_option_data: {
+          name: 'milk',
+          display_name: 'Milk type',
+          values: [
+            { type: 'ITEM_OPTION_VAL', id: 'VAL_OAT', item_option_value_data: { name: 'Oat', ordinal: 2 } },
+            { type: 'ITEM_OPTION_VAL', id: 'VAL_WHOLE', item_option_value_data: { name: 'Whole', ordinal: 1 } },
+          ],
+        },
+      },
+    ] as any[];
+
+    it('resolves modifier lists with min/max selection rules', () => {
+      const item = {
+        type: 'ITEM',
+        id: 'ITEM_BURGER',
+        item_data: {
+          name: 'Burger',
+          modifier_list_info: [
+            { modifier_list_id: 'MODLIST_TOPPINGS', min_selected_modifiers: -1, max_selected_modifiers: -1 },
+            { modifier_list_id: 'MODLIST_SAUCE', min_selected_modifiers: 1 },
+          ],
+        },
+      } as any;
+
+      const { modifier_lists } = transformCatalogItem(item, relatedObjects);
+
+      expect(modifier_lists).toHaveLength(2);
+      expect(modifier_lists![0]).toMatchObject({
+        name: 'Toppings',
+        selection_type: 'MULTIPLE',
+        min_selected: 0,
+        max_selected: 2,
+      });
+      expect(modifier_lists![0].modifiers.map((m) => m.name)).toEqual(['Extra cheese', 'Bacon']);
+      expect(modifier_lists![0].modifiers[0].priceFormatted).toBe('$1.00');
+      expect(modifier_lists![1]).toMatchObject({ selection_type: 'SINGLE', min_selected: 1, max_selected: 1 });
+    });
+
+    it('skips disabled and unknown modifier lists', () => {
+      const item = {
+        type: 'ITEM',
+        id: 'ITEM_BURGER',
+        item_data: {
+          name: 'Burger',
+          modifier_list_info: [
+            { modifier_list_id: 'MODLIST_TOPPINGS', enabled: false },
+            { modifier_list_id: 'MODLIST_MISSING' },
+          ],
+        },
+      } as any;
+
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(transformCatalogItem(item, relatedObjects).modifier_lists).toBeUndefined();
+    });
+
+    it('resolves item options and links variations to option values', () => {
+      const item = {
+        type: 'ITEM',
+        id: 'ITEM_LATTE',
+        item_data: {
+          name: 'Latte',
+          item_options: [{ item_option_id: 'OPT_MILK' }],
+          variations: [
+            {
+              type: 'ITEM_VARIATION',
+              id: 'VAR_LATTE_OAT',
+              item_variation_data: {
+                name: 'Oat',
+                pricing_type: 'FIXED_PRICING',
+                price_money: { amount: 550, currency: 'USD' },
+                item_option_values: [{ item_option_id: 'OPT_MILK', item_option_value_id: 'VAL_OAT' }],
+              },
+            },
+          ],
+        },
+      } as any;
+
+      const transformed = transformCatalogItem(item, relatedObjects);
+
+      expect(transformed.options).toEqual([
+        {
+          id: 'OPT_MILK',
+          name: 'Milk type',
+          values: [
+            { id: 'VAL_WHOLE', name: 'Whole' },
+            { id: 'VAL_OAT', name: 'Oat' },
+          ],
+        },
+      ]);
+      expect(transformed.variations[0].option_value_ids).toEqual(['VAL_OAT']);
+    });
+  });
+
+  describe('Item detail', () => {
+    it('resolves every image and per-location variation availability', () => {
+      const item = {
+        type: 'ITEM',
+        id: 'ITEM_DETAIL',
+        present_at_all_locations: true,
+        item_data: {
+          name: 'Margherita Pizza',
+          category_id: 'CAT_PIZZA',
+          image_ids: ['IMG_PIZZA_1', 'IMG_MISSING'],
+          variations: [
+            {
+              type: 'ITEM_VARIATION',
+              id: 'VAR_EVERYWHERE',
+              present_at_all_locations: true,
+              item_variation_data: {
+                name: 'Small',
+                pricing_type: 'FIXED_PRICING',
+                price_money: { amount: 1250, currency: 'USD' },
+              },
+            },
+            {
+              type: 'ITEM_VARIATION',
+              id: 'VAR_NOT_HERE',
+              present_at_all_locations: true,
+              absent_at_location_ids: ['LOC1'],
+              item_variation_data: {
+                name: 'Large',
+                pricing_type: 'FIXED_PRICING',
+                price_money: { amount: 1850, currency: 'USD' },
+              },
+            },
+          ],
+        },
+      } as any;
+
+      const detail = transformCatalogItemDetail(
+        item,
+        mockFullCatalogResponse.related_objects!,
+        'LOC1',
+      );
+
+      expect(detail.image_urls).toEqual(['https://example.com/images/pizza.jpg']);
+      expect(detail.variations.map((v) => v.is_available)).toEqual([true, false]);
+    });
+
+    it('treats variations without presence fields as inheriting the item', () => {
+      const variation = { type: 'ITEM_VARIATION', id: 'VAR', item_variation_data: {} } as any;
+      expect(isVariationAvailableAtLocation(variation, 'LOC1')).toBe(true);
+    });
+
+    it('honors an explicit present_at_location_ids list', () => {
+      const variation = {
+        type: 'ITEM_VARIATION',
+        id: 'VAR',
+        present_at_all_locations: false,
+        present_at_location_ids: ['LOC2'],
+        item_variation_data: {},
+      } as any;
+      expect(isVariationAvailableAtLocation(variation, 'LOC1')).toBe(false);
+      expect(isVariationAvailableAtLocation(variation, 'LOC2')).toBe(true);
+    });
+  });
+
   describe('Grouping by category', () => {
     it('groups items by category name', () => {
       const items = mockFullCatalogResponse.objects!.filter((obj) => obj.type === 'ITEM') as any[];
@@ -249,11 +588,95 @@ describe('Catalog Integration', () => {
     });
   });
 
+  describe('Dietary tags', () => {
+    const base = mockFullCatalogResponse.objects![1] as any;
+
+    it('reads Square dietary preference labels', () => {
+      const item = {
+        ...base,
+        item_data: {
+          ...base.item_data,
+          food_and_beverage_details: {
+            dietary_preferences: [
+              { type: 'STANDARD', standard_name: 'GLUTEN_FREE' },
+              { type: 'CUSTOM', custom_name: 'Vegetarian' },
+              { type: 'CUSTOM', custom_name: 'Spicy' },
+            ],
+          },
+        },
+      };
+
+      expect(extractDietaryTags(item)).toEqual(['vegetarian', 'gluten_free']);
+    });
+
+    it('reads boolean and list custom attributes', () => {
+      const item = {
+        ...base,
+        custom_attribute_values: {
+          vegan: { name: 'Vegan', type: 'BOOLEAN', boolean_value: true },
+          halal: { name: 'Halal', type: 'BOOLEAN', boolean_value: false },
+          dietary: { name: 'Dietary', type: 'STRING', string_value: 'Nut-Free, kosher' },
+        },
+      };
+
+      expect(extractDietaryTags(item)).toEqual(['vegan', 'nut_free', 'kosher']);
+    });
+
+    it('omits dietary_tags from items without labels', () => {
+      expect(transformCatalogItem(base, []).dietary_tags).toBeUndefined();
+    });
+  });
+
+  describe('Catalog filters', () => {
+    const vegetarianPizza = {
+      ...(mockFullCatalogResponse.objects![0] as any),
+      custom_attribute_values: {
+        vegetarian: { name: 'Vegetarian', type: 'BOOLEAN', boolean_value: true },
+      },
+    };
+    const groups = () =>
+      groupItemsByCategory(
+        [vegetarianPizza, mockFullCatalogResponse.objects![1] as any],
+        mockFullCatalogResponse.related_objects!,
+      );
+    const names = (result: ReturnType<typeof groups>) =>
+      result.flatMap((g) => g.items.map((i) => i.name));
+
+    it('returns the catalog unchanged without filters', () => {
+      const all = groups();
+      expect(filterCatalog(all, {})).toBe(all);
+    });
+
+    it('keeps items with any variation inside the price range', () => {
+      expect(names(filterCatalog(groups(), { max_price: 10 }))).toEqual(['Cheeseburger']);
+      expect(names(filterCatalog(groups(), { min_price: 15 }))).toEqual(['Margherita Pizza']);
+      expect(names(filterCatalog(groups(), { min_price: 13, max_price: 15 }))).toEqual([]);
+    });
+
+    it('filters by category ID and drops empty categories', () => {
+      const result = filterCatalog(groups(), { category_ids: ['CAT_PIZZA'] });
+      expect(result.map((g) => g.categoryId)).toEqual(['CAT_PIZZA']);
+    });
+
+    it('requires every requested dietary tag', () => {
+      expect(names(filterCatalog(groups(), { dietary: ['vegetarian'] }))).toEqual([
+        'Margherita Pizza',
+      ]);
+      expect(filterCatalog(groups(), { dietary: ['vegetarian', 'vegan'] })).toEqual([]);
+    });
+
+    it('combines filters ("vegetarian under $15")', () => {
+      expect(names(filterCatalog(groups(), { dietary: ['vegetarian'], max_price: 15 }))).toEqual([
+        'Margherita Pizza',
+      ]);
+    });
+  });
+
   describe('End-to-end catalog fetch', () => {
     it('fetches and transforms full catalog', async () => {
       const allRelatedObjects: any[] = [];
 
-      const catalogObjects = await aggregateSquarePages(async (cursor?: string) => {
+      const { objects: catalogObjects } = await aggregateSquarePages(async (cursor?: string) => {
         const response = await squareClient.post<SquareSearchCatalogResponse>('/catalog/search', {
           object_types: ['ITEM'],
           include_related_objects: true,
@@ -101,7 +101,7 @@ describe('Categories Integration', () => {
   });
 
   it('aggregates catalog items across multiple pages', async () => {
-    const allObjects = await aggregateSquarePages(async (cursor?: string) => {
+    const { objects: allObjects, partial } = await aggregateSquarePages(async (cursor?: string) => {
       const response = await squareClient.post<SquareSearchCatalogResponse>('/catalog/search', {
         object_types: ['ITEM'],
         include_related_objects: true,
@@ -114,6 +114,7 @@ describe('Categories Integration', () => {
     });
 
     expect(allObjects).toHaveLength(3);
+    expect(partial).toBe(false);
   });
 
   it('filters items by location', () => {
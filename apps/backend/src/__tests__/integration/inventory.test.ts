@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import type { AxiosInstance } from 'axios';
+import type {
+  MenuItem,
+  SquareBatchRetrieveInventoryCountsResponse,
+  SquareSearchCatalogResponse,
+} from '@per-diem/shared-types';
+import { createSquareClient } from '../../services/square-client.service.js';
+import { MemoryCacheProvider, CacheKeys } from '../../services/cache.service.js';
+import { CatalogSnapshotService } from '../../services/catalog-snapshot.service.js';
+import {
+  InventoryService,
+  applyInventoryLevels,
+  inventoryLevels,
+  withInventory,
+} from '../../services/inventory.service.js';
+
+const SQUARE_BASE_URL = 'https://connect.squareupsandbox.com';
+
+const mockCatalogResponse: SquareSearchCatalogResponse = {
+  objects: [
+    {
+      type: 'ITEM',
+      id: 'ITEM_LATTE',
+      present_at_location_ids: ['LOC1'],
+      item_data: {
+        name: 'Latte',
+        variations: [
+          {
+            type: 'ITEM_VARIATION',
+            id: 'VAR_LATTE_12OZ',
+            item_variation_data: { name: '12oz', pricing_type: 'FIXED_PRICING' },
+          },
+          {
+            type: 'ITEM_VARIATION',
+            id: 'VAR_LATTE_16OZ',
+            item_variation_data: { name: '16oz', pricing_type: 'FIXED_PRICING' },
+          },
+        ],
+      },
+    },
+    {
+      type: 'ITEM',
+      id: 'ITEM_SCONE',
+      present_at_location_ids: ['LOC2'],
+      item_data: {
+        name: 'Scone',
+        variations: [
+          {
+            type: 'ITEM_VARIATION',
+            id: 'VAR_SCONE',
+            item_variation_data: { name: 'Regular', pricing_type: 'FIXED_PRICING' },
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const mockCountsResponse: SquareBatchRetrieveInventoryCountsResponse = {
+  counts: [
+    {
+      catalog_object_id: 'VAR_LATTE_12OZ',
+      state: 'IN_STOCK',
+      location_id: 'LOC1',
+      quantity: '0',
+    },
+    {
+      catalog_object_id: 'VAR_LATTE_16OZ',
+      state: 'IN_STOCK',
+      location_id: 'LOC1',
+      quantity: '4',
+    },
+  ],
+};
+
+let countRequests: Record<string, unknown>[] = [];
+
+const server = setupServer(
+  http.post(`${SQUARE_BASE_URL}/v2/catalog/search`, () => HttpResponse.json(mockCatalogResponse)),
+  http.post(`${SQUARE_BASE_URL}/v2/inventory/counts/batch-retrieve`, async ({ request }) => {
+    countRequests.push((await request.json()) as Record<string, unknown>);
+    return HttpResponse.json(mockCountsResponse);
+  }),
+);
+
+const latte: MenuItem = {
+  id: 'ITEM_LATTE',
+  name: 'Latte',
+  category: 'Coffee',
+  variations: ['VAR_LATTE_12OZ', 'VAR_LATTE_16OZ'].map((id) => ({
+    id,
+    name: id,
+    pricing_type: 'FIXED_PRICING',
+    priceDollars: 4.5,
+    priceFormatted: '$4.50',
+    price_amount: 450,
+    price_currency: 'USD',
+    is_available: true,
+  })),
+};
+
+describe('Inventory', () => {
+  let squareClient: AxiosInstance;
+  let cache: MemoryCacheProvider;
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+    squareClient = createSquareClient(SQUARE_BASE_URL, 'test-token');
+    cache = new MemoryCacheProvider(300);
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    cache.clear();
+    countRequests = [];
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  describe('inventoryLevels', () => {
+    it('reads IN_STOCK quantities and ignores other states', () => {
+      const levels = inventoryLevels([
+        ...mockCountsResponse.counts!,
+        { catalog_object_id: 'VAR_SCONE', state: 'SOLD', location_id: 'LOC2', quantity: '3' },
+      ]);
+
+      expect(levels).toEqual({
+        VAR_LATTE_12OZ: { in_stock: false, quantity_remaining: 0 },
+        VAR_LATTE_16OZ: { in_stock: true, quantity_remaining: 4 },
+      });
+    });
+  });
+
+  describe('withInventory', () => {
+    it('marks sold-out variations unavailable and keeps the item orderable', () => {
+      const item = withInventory(latte, inventoryLevels(mockCountsResponse.counts!));
+
+      expect(item.in_stock).toBe(true);
+      expect(item.variations[0]).toMatchObject({
+        in_stock: false,
+        quantity_remaining: 0,
+        is_available: false,
+      });
+      expect(item.variations[1]).toMatchObject({
+        in_stock: true,
+        quantity_remaining: 4,
+        is_available: true,
+      });
+    });
+
+    it('marks the item sold out when no variation is left', () => {
+      const item = withInventory(latte, {
+        VAR_LATTE_12OZ: { in_stock: false, quantity_remaining: 0 },
+        VAR_LATTE_16OZ: { in_stock: false, quantity_remaining: 0 },
+      });
+
+      expect(item.in_stock).toBe(false);
+    });
+
+    it('leaves items without tracked variations unchanged', () => {
+      expect(withInventory(latte, {})).toBe(latte);
+      expect(
+        applyInventoryLevels([{ category: 'Coffee', categoryId: 'CAT', items: [latte] }], {}),
+      ).toEqual([{ category: 'Coffee', categoryId: 'CAT', items: [latte] }]);
+    });
+  });
+
+  describe('InventoryService', () => {
+    const createService = () =>
+      new InventoryService(
+        squareClient,
+        cache,
+        new CatalogSnapshotService(squareClient, cache, 300),
+        30,
+      );
+
+    it("requests counts for the location's variations only", async () => {
+      const levels = await createService().getLevels('LOC1');
+
+      expect(levels.VAR_LATTE_16OZ).toEqual({ in_stock: true, quantity_remaining: 4 });
+      expect(countRequests).toEqual([
+        {
+          catalog_object_ids: ['VAR_LATTE_12OZ', 'VAR_LATTE_16OZ'],
+          location_ids: ['LOC1'],
+          states: ['IN_STOCK'],
+        },
+      ]);
+    });
+
+    it('caches levels per location until invalidated', async () => {
+      const service = createService();
+
+      await service.getLevels('LOC1');
+      await service.getLevels('LOC1');
+      expect(countRequests).toHaveLength(1);
+      expect(await cache.has(CacheKeys.inventory('LOC1'))).toBe(true);
+
+      await service.invalidate(['LOC1']);
+      await service.getLevels('LOC1');
+      expect(countRequests).toHaveLength(2);
+    });
+
+    it('shares one Square request between concurrent misses', async () => {
+      const service = createService();
+
+      await Promise.all([
+        service.getLevels('LOC1'),
+        service.getLevels('LOC1'),
+        service.getLevels('LOC1'),
+      ]);
+
+      expect(countRequests).toHaveLength(1);
+    });
+
+    it('does not call Square for a location without items', async () => {
+      expect(await createService().getLevels('LOC_EMPTY')).toEqual({});
+      expect(countRequests).toHaveLength(0);
+    });
+  });
+});
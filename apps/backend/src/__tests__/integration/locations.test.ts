@@ -1,10 +1,25 @@
 import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
-import { http, HttpResponse } from 'msw';
+import { http, HttpResponse, passthrough } from 'msw';
 import { setupServer } from 'msw/node';
+import express from 'express';
+import type { AddressInfo } from 'net';
 import type { AxiosInstance } from 'axios';
 import type { SquareListLocationsResponse } from '@per-diem/shared-types';
-import { createSquareClient } from '../../services/square-client.service.js';
-import { MemoryCacheProvider } from '../../services/cache.service.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  createSquareClient,
+} from '../../services/square-client.service.js';
+import {
+  CacheKeys,
+  LastKnownGoodCache,
+  MemoryCacheProvider,
+} from '../../services/cache.service.js';
+import { LocationService, priceFormatForLocation } from '../../services/location.service.js';
+import locationsRouter from '../../routes/locations.route.js';
+import {
+  computeOpenStatus,
+  resolveLocationLocale,
+} from '../../transformers/square-location.transformer.js';
 
 const SQUARE_BASE_URL = 'https://connect.squareupsandbox.com';
 
@@ -22,6 +37,9 @@ const mockLocationsResponse: SquareListLocationsResponse = {
       },
       timezone: 'America/Los_Angeles',
       status: 'ACTIVE',
+      business_hours: {
+        periods: [{ day_of_week: 'MON', start_local_time: '07:00:00', end_local_time: '21:00:00' }],
+      },
     },
     {
       id: 'LOC2',
@@ -95,4 +113,178 @@ describe('Locations Integration', () => {
 
     await expect(squareClient.get('/locations')).rejects.toThrow();
   });
+
+  it('loads ACTIVE locations with their price locale through LocationService', async () => {
+    const service = new LocationService(squareClient, cache, 300);
+
+    const { locations } = await service.getLocations();
+
+    expect(locations.map((loc) => loc.id)).toEqual(['LOC1']);
+    expect(locations[0].locale).toBe('en-US');
+    expect(await service.getLocation('LOC2')).toBeNull();
+  });
+
+  it('falls back to the default price format when locations cannot be loaded', async () => {
+    server.use(
+      http.get(`${SQUARE_BASE_URL}/v2/locations`, () => {
+        return HttpResponse.json({ errors: [{ code: 'UNAUTHORIZED' }] }, { status: 401 });
+      }),
+    );
+    const service = new LocationService(squareClient, cache, 300);
+
+    expect(await service.getPriceFormat('LOC1')).toEqual({ locale: 'en-US', currency: 'USD' });
+  });
+
+  it('refetches locations after invalidation', async () => {
+    const service = new LocationService(squareClient, cache, 300);
+    await service.getLocations();
+
+    server.use(
+      http.get(`${SQUARE_BASE_URL}/v2/locations`, () =>
+        HttpResponse.json({
+          locations: [{ ...mockLocationsResponse.locations![0], name: 'Renamed Store' }],
+        }),
+      ),
+    );
+    await service.invalidate();
+
+    const { locations } = await service.getLocations();
+    expect(locations[0].name).toBe('Renamed Store');
+  });
+
+  it('serves last-known-good locations marked degraded when Square is unavailable', async () => {
+    const noRetryClient = createSquareClient(SQUARE_BASE_URL, 'test-token', {
+      ...DEFAULT_RETRY_OPTIONS,
+      maxRetries: 0,
+    });
+    const service = new LocationService(noRetryClient, cache, 300, new LastKnownGoodCache(cache, 3600));
+    await service.getLocations();
+    await cache.delete(CacheKeys.locations());
+
+    server.use(
+      http.get(`${SQUARE_BASE_URL}/v2/locations`, () =>
+        HttpResponse.json({ errors: [{ code: 'SERVICE_UNAVAILABLE' }] }, { status: 503 }),
+      ),
+    );
+
+    const result = await service.getLocations();
+    expect(result.degraded).toBe(true);
+    expect(result.locations.map((loc) => loc.id)).toEqual(['LOC1']);
+  });
+
+  describe('price locale', () => {
+    const base = { id: 'LOC', name: 'Test', status: 'ACTIVE' as const };
+
+    it('prefers the Square language code', () => {
+      expect(resolveLocationLocale({ ...base, language_code: 'fr-CA', country: 'CA' })).toBe('fr-CA');
+    });
+
+    it('falls back to English in the location country', () => {
+      expect(resolveLocationLocale({ ...base, country: 'GB' })).toBe('en-GB');
+      expect(resolveLocationLocale({ ...base, address: { country: 'CA' } })).toBe('en-CA');
+    });
+
+    it('defaults to en-US', () => {
+      expect(resolveLocationLocale(base)).toBe('en-US');
+    });
+
+    it('builds a price format from the location currency', () => {
+      const location = { ...base, address: {}, timezone: 'Europe/London', locale: 'en-GB', currency: 'GBP' };
+      expect(priceFormatForLocation(location)).toEqual({ locale: 'en-GB', currency: 'GBP' });
+      expect(priceFormatForLocation(null)).toEqual({ locale: 'en-US', currency: 'USD' });
+    });
+  });
+
+  describe('business hours', () => {
+    const weekdays = (['MON', 'TUE', 'WED', 'THU', 'FRI'] as const).map((day_of_week) => ({
+      day_of_week,
+      start_local_time: '07:00',
+      end_local_time: '21:00',
+    }));
+    const tz = 'America/Los_Angeles';
+
+    it('reports open with the closing time during business hours', () => {
+      // Monday 2024-01-15 10:00 PST
+      const status = computeOpenStatus(weekdays, tz, new Date('2024-01-15T18:00:00Z'));
+      expect(status).toEqual({
+        is_open_now: true,
+        closes_at: '2024-01-16T05:00:00.000Z',
+        next_open_at: null,
+      });
+    });
+
+    it('reports closed with the next opening time outside business hours', () => {
+      // Friday 2024-01-19 22:00 PST → opens Monday 07:00
+      const status = computeOpenStatus(weekdays, tz, new Date('2024-01-20T06:00:00Z'));
+      expect(status).toEqual({
+        is_open_now: false,
+        closes_at: null,
+        next_open_at: '2024-01-22T15:00:00.000Z',
+      });
+    });
+
+    it('handles periods that run past midnight', () => {
+      const late = [{ day_of_week: 'SAT' as const, start_local_time: '20:00', end_local_time: '02:00' }];
+      // Sunday 2024-01-21 01:00 PST, still inside Saturday's period
+      const status = computeOpenStatus(late, tz, new Date('2024-01-21T09:00:00Z'));
+      expect(status.is_open_now).toBe(true);
+      expect(status.closes_at).toBe('2024-01-21T10:00:00.000Z');
+    });
+
+    it('returns unknown status when no hours are published', () => {
+      expect(computeOpenStatus([], tz, new Date())).toEqual({
+        is_open_now: null,
+        closes_at: null,
+        next_open_at: null,
+      });
+    });
+
+    it('exposes business hours through LocationService', async () => {
+      const service = new LocationService(squareClient, cache, 300);
+
+      const [location] = (await service.getLocations()).locations;
+
+      expect(location.business_hours).toHaveLength(1);
+      expect(typeof location.is_open_now).toBe('boolean');
+    });
+  });
+
+  describe('GET /api/locations', () => {
+    /** Serves the locations route on a random port, letting its requests past msw. */
+    async function listen(service: LocationService) {
+      const app = express();
+      app.locals.locations = service;
+      app.locals.config = { CACHE_TTL_SECONDS: 300 };
+      app.use('/api/locations', locationsRouter);
+
+      const httpServer = app.listen(0);
+      await new Promise((resolve) => httpServer.once('listening', resolve));
+      const baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+      server.use(http.all(`${baseUrl}/*`, () => passthrough()));
+      return { baseUrl, close: () => httpServer.close() };
+    }
+
+    it('sends cache validators and answers a matching If-None-Match with 304', async () => {
+      const { baseUrl, close } = await listen(new LocationService(squareClient, cache, 300));
+
+      try {
+        const first = await fetch(`${baseUrl}/api/locations`);
+        const etag = first.headers.get('etag');
+
+        expect(first.status).toBe(200);
+        expect(etag).toMatch(/^W\/"/);
+        expect(first.headers.get('last-modified')).not.toBeNull();
+        expect(first.headers.get('cache-control')).toMatch(/^public, max-age=(300|299)$/);
+
+        const second = await fetch(`${baseUrl}/api/locations`, {
+          headers: { 'If-None-Match': etag! },
+        });
+
+        expect(second.status).toBe(304);
+        expect(await second.text()).toBe('');
+      } finally {
+        close();
+      }
+    });
+  });
 });
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { http, HttpResponse, passthrough } from 'msw';
+import { setupServer } from 'msw/node';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type {
+  SquareListLocationsResponse,
+  SquareSearchCatalogResponse,
+  SquareWebhookEvent,
+} from '@per-diem/shared-types';
+import { createSquareClient } from '../../services/square-client.service.js';
+import { CacheKeys, MemoryCacheProvider } from '../../services/cache.service.js';
+import { CatalogSnapshotService } from '../../services/catalog-snapshot.service.js';
+import { CatalogSearchService } from '../../services/catalog-search.service.js';
+import { CatalogEventBus } from '../../services/catalog-events.service.js';
+import { LocationService } from '../../services/location.service.js';
+import { WebhookEventLog } from '../../services/webhook-event.service.js';
+import { captureRawBody } from '../../middleware/webhook-signature.middleware.js';
+import { errorHandler } from '../../middleware/error-handler.middleware.js';
+import webhooksRouter from '../../routes/webhooks.route.js';
+
+const SQUARE_BASE_URL = 'https://connect.squareupsandbox.com';
+
+const mockCatalogResponse: SquareSearchCatalogResponse = {
+  objects: [
+    {
+      type: 'ITEM',
+      id: 'ITEM_LATTE',
+      present_at_all_locations: true,
+      item_data: {
+        name: 'Latte',
+        variations: [
+          {
+            type: 'ITEM_VARIATION',
+            id: 'VAR_LATTE',
+            item_variation_data: {
+              name: 'Regular',
+              pricing_type: 'FIXED_PRICING',
+              price_money: { amount: 450, currency: 'USD' },
+            },
+          },
+        ],
+      },
+    },
+  ],
+};
+
+/** LOC1's language, changed by tests to simulate a locale update in Square. */
+let loc1Language = 'en-US';
+
+const server = setupServer(
+  http.post(`${SQUARE_BASE_URL}/v2/catalog/search`, () => HttpResponse.json(mockCatalogResponse)),
+  http.get(`${SQUARE_BASE_URL}/v2/locations`, () =>
+    HttpResponse.json<SquareListLocationsResponse>({
+      locations: [
+        { id: 'LOC1', name: 'Downtown', status: 'ACTIVE', language_code: loc1Language },
+        { id: 'LOC2', name: 'Uptown', status: 'ACTIVE', language_code: 'en-US' },
+      ],
+    }),
+  ),
+);
+
+describe('POST /webhooks/square/catalog-updated', () => {
+  let cache: MemoryCacheProvider;
+  let catalogSnapshots: CatalogSnapshotService;
+  let catalogSearch: CatalogSearchService;
+  let httpServer: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server.listen({ onUnhandledRequest: 'error' });
+    const squareClient = createSquareClient(SQUARE_BASE_URL, 'test-token');
+    cache = new MemoryCacheProvider(300);
+    catalogSnapshots = new CatalogSnapshotService(squareClient, cache, 300);
+    const locations = new LocationService(squareClient, cache, 300);
+    catalogSearch = new CatalogSearchService(catalogSnapshots, locations);
+
+    const app = express();
+    app.locals.cache = cache;
+    app.locals.catalogSnapshots = catalogSnapshots;
+    app.locals.locations = locations;
+    app.locals.catalogSearch = catalogSearch;
+    app.locals.catalogEvents = new CatalogEventBus();
+    app.locals.webhookEvents = new WebhookEventLog(cache, 3600);
+    // No signature key outside production: verification is skipped
+    app.locals.config = { NODE_ENV: 'test' };
+    app.use(express.json({ verify: captureRawBody }));
+    app.use('/webhooks/square', webhooksRouter);
+    app.use(errorHandler);
+
+    httpServer = app.listen(0);
+    await new Promise((resolve) => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    server.resetHandlers();
+    cache.clear();
+    loc1Language = 'en-US';
+  });
+
+  afterAll(() => {
+    httpServer.close();
+    server.close();
+  });
+
+  /** Delivers a webhook event, letting the request past msw. */
+  const deliver = async (event: SquareWebhookEvent) => {
+    server.use(http.all(`${baseUrl}/*`, () => passthrough()));
+    const res = await fetch(`${baseUrl}/webhooks/square/catalog-updated`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+    });
+    return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+  };
+
+  const locationUpdated = (eventId: string): SquareWebhookEvent => ({
+    merchant_id: 'MERCHANT',
+    type: 'location.updated',
+    event_id: eventId,
+    created_at: new Date().toISOString(),
+    data: { type: 'location', id: 'LOC1', object: {} },
+  });
+
+  const catalogVersionUpdated = (eventId: string, updatedAt: string): SquareWebhookEvent => ({
+    merchant_id: 'MERCHANT',
+    type: 'catalog.version.updated',
+    event_id: eventId,
+    created_at: updatedAt,
+    data: { type: 'catalog', id: '', object: { catalog_version: { updated_at: updatedAt } } },
+  });
+
+  const searchPrice = async (locationId: string) => {
+    const { results } = await catalogSearch.search(locationId, 'latte', 10);
+    return results[0].item.variations[0].priceFormatted;
+  };
+
+  describe('location.updated', () => {
+    it('rebuilds the changed location\'s search index with its new locale', async () => {
+      expect(await searchPrice('LOC1')).toBe('$4.50');
+
+      loc1Language = 'en-GB';
+      const { status } = await deliver(locationUpdated('evt-location-1'));
+
+      expect(status).toBe(200);
+      expect(await searchPrice('LOC1')).toBe('US$4.50');
+    });
+  });
+
+  describe('idempotency', () => {
+    it('processes a repeated event_id only once', async () => {
+      const first = await deliver(locationUpdated('evt-repeat'));
+      await cache.set(CacheKeys.catalog('LOC1'), { categories: [] }, 300);
+      const second = await deliver(locationUpdated('evt-repeat'));
+
+      expect(first.body).toMatchObject({ message: 'Webhook processed successfully' });
+      expect(second.status).toBe(200);
+      expect(second.body).toMatchObject({ event_id: 'evt-repeat', duplicate: true });
+      expect(await cache.has(CacheKeys.catalog('LOC1'))).toBe(true);
+    });
+
+    it('skips a catalog event older than the applied catalog version', async () => {
+      await deliver(catalogVersionUpdated('evt-newer', '2024-01-02T00:00:00Z'));
+      await cache.set(CacheKeys.catalog('LOC1'), { categories: [] }, 300);
+      const older = await deliver(catalogVersionUpdated('evt-older', '2024-01-01T00:00:00Z'));
+
+      expect(older.status).toBe(200);
+      expect(older.body).toMatchObject({ event_id: 'evt-older', stale: true });
+      expect(await cache.has(CacheKeys.catalog('LOC1'))).toBe(true);
+    });
+
+    it('processes a redelivery after the handler failed', async () => {
+      vi.spyOn(catalogSnapshots, 'invalidate').mockRejectedValueOnce(new Error('boom'));
+      const event = catalogVersionUpdated('evt-retry', '2024-01-01T00:00:00Z');
+
+      const failed = await deliver(event);
+      await cache.set(CacheKeys.catalog('LOC1'), { categories: [] }, 300);
+      const retried = await deliver(event);
+
+      expect(failed.status).toBe(500);
+      expect(retried.status).toBe(200);
+      expect(retried.body).toMatchObject({
+        message: 'Webhook processed successfully',
+        caches_cleared: ['snapshot:catalog', 'catalog:*', 'categories:*'],
+      });
+      expect(await cache.has(CacheKeys.catalog('LOC1'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  aggregateSquarePages,
+  paginateSquarePages,
+  type PaginationOptions,
+  type SquarePage,
+} from '../utils/pagination.js';
+import { AppError } from '../utils/app-error.js';
+
+const OPTIONS: PaginationOptions = {
+  maxPages: 10,
+  timeoutMs: 1_000,
+  onLimit: 'partial',
+  prefetch: true,
+};
+
+/** Fetcher over `total` pages of one object each, with cursors "1", "2", ... */
+function pagedFetcher(total: number, delayMs = 0) {
+  return vi.fn(async (cursor?: string): Promise<SquarePage<number>> => {
+    if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+    const page = cursor ? Number(cursor) : 0;
+    return { objects: [page], cursor: page + 1 < total ? String(page + 1) : undefined };
+  });
+}
+
+describe('aggregateSquarePages', () => {
+  it('follows every cursor within the budget', async () => {
+    const result = await aggregateSquarePages(pagedFetcher(3), OPTIONS);
+
+    expect(result).toEqual({ objects: [0, 1, 2], partial: false, pages: 3 });
+  });
+
+  it('flags the result partial when the page budget runs out', async () => {
+    const fetcher = pagedFetcher(5);
+    const result = await aggregateSquarePages(fetcher, { ...OPTIONS, maxPages: 2 });
+
+    expect(result).toEqual({ objects: [0, 1], partial: true, pages: 2 });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws when the page budget runs out in error mode', async () => {
+    const request = aggregateSquarePages(pagedFetcher(5), {
+      ...OPTIONS,
+      maxPages: 2,
+      onLimit: 'error',
+    });
+
+    await expect(request).rejects.toBeInstanceOf(AppError);
+    await expect(request).rejects.toMatchObject({ code: 'PAGINATION_LIMIT' });
+  });
+
+  it('stops at the total timeout', async () => {
+    const result = await aggregateSquarePages(pagedFetcher(100, 20), {
+      ...OPTIONS,
+      maxPages: 100,
+      timeoutMs: 50,
+    });
+
+    expect(result.partial).toBe(true);
+    expect(result.pages).toBeLessThan(100);
+  });
+
+  it('throws rather than returning nothing when the first page times out', async () => {
+    const request = aggregateSquarePages(pagedFetcher(3, 100), { ...OPTIONS, timeoutMs: 20 });
+
+    await expect(request).rejects.toBeInstanceOf(AppError);
+    await expect(request).rejects.toMatchObject({ statusCode: 502, code: 'PAGINATION_TIMEOUT' });
+  });
+
+  it('propagates fetch errors', async () => {
+    const fetcher = vi.fn().mockRejectedValue(new Error('boom'));
+
+    await expect(aggregateSquarePages(fetcher, OPTIONS)).rejects.toThrow('boom');
+  });
+});
+
+describe('paginateSquarePages', () => {
+  it('requests the next page while the caller handles the current one', async () => {
+    const fetcher = pagedFetcher(3);
+    const seen: number[] = [];
+
+    for await (const page of paginateSquarePages(fetcher, OPTIONS)) {
+      // The next page is already in flight when this one is handed out
+      seen.push(fetcher.mock.calls.length);
+      expect(page.objects).toHaveLength(1);
+    }
+
+    expect(seen).toEqual([2, 3, 3]);
+  });
+
+  it('waits for the caller before fetching when prefetch is off', async () => {
+    const fetcher = pagedFetcher(3);
+    const seen: number[] = [];
+
+    for await (const page of paginateSquarePages(fetcher, { ...OPTIONS, prefetch: false })) {
+      seen.push(fetcher.mock.calls.length);
+      expect(page.objects).toHaveLength(1);
+    }
+
+    expect(seen).toEqual([1, 2, 3]);
+  });
+});
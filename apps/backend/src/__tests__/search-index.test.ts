@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { MenuItem } from '@per-diem/shared-types';
+import {
+  buildSearchIndex,
+  editDistance,
+  searchIndex,
+  tokenize,
+} from '../utils/search-index.js';
+
+function menuItem(id: string, name: string, category: string, extra: Partial<MenuItem> = {}): MenuItem {
+  return { id, name, category, variations: [], ...extra };
+}
+
+const variation = (name: string) => ({
+  id: `VAR_${name}`,
+  name,
+  pricing_type: 'FIXED_PRICING' as const,
+  priceDollars: 5,
+  priceFormatted: '$5.00',
+  price_amount: 500,
+  price_currency: 'USD',
+});
+
+const items: MenuItem[] = [
+  menuItem('ITEM_BURGER', 'Cheese Burger', 'Burgers'),
+  menuItem('ITEM_PIZZA', 'Margherita Pizza', 'Pizza', {
+    description: 'Tomato, mozzarella and basil',
+  }),
+  menuItem('ITEM_SALAD', 'Garden Salad', 'Salads', {
+    description: 'Mixed greens with a light cheese crumble',
+  }),
+  menuItem('ITEM_LATTE', 'Latte', 'Coffee', { variations: [variation('Oat Milk')] }),
+  menuItem('ITEM_CREME', 'Crème Brûlée', 'Desserts'),
+];
+
+const index = buildSearchIndex(items);
+const ids = (query: string) => searchIndex(index, query, 20).map((r) => r.item.id);
+
+describe('search index', () => {
+  describe('tokenize', () => {
+    it('lowercases, folds accents and keeps original offsets', () => {
+      expect(tokenize('Crème Brûlée')).toEqual([
+        { term: 'creme', start: 0, end: 5 },
+        { term: 'brulee', start: 6, end: 12 },
+      ]);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('counts substitutions, insertions and transpositions', () => {
+      expect(editDistance('chese', 'cheese', 2)).toBe(1);
+      expect(editDistance('pizaz', 'pizza', 2)).toBe(1);
+      expect(editDistance('latte', 'salad', 1)).toBe(2);
+    });
+  });
+
+  it('matches exact terms', () => {
+    expect(ids('pizza')).toEqual(['ITEM_PIZZA']);
+  });
+
+  it('matches prefixes', () => {
+    expect(ids('marg')).toEqual(['ITEM_PIZZA']);
+  });
+
+  it('tolerates typos', () => {
+    expect(ids('chese burger')[0]).toBe('ITEM_BURGER');
+    expect(ids('margarita')).toEqual(['ITEM_PIZZA']);
+  });
+
+  it('searches variation names and accent-insensitively', () => {
+    expect(ids('oat')).toEqual(['ITEM_LATTE']);
+    expect(ids('creme brulee')).toEqual(['ITEM_CREME']);
+  });
+
+  it('ranks name matches above description matches', () => {
+    expect(ids('cheese')).toEqual(['ITEM_BURGER', 'ITEM_SALAD']);
+  });
+
+  it('ranks items matching every query term first', () => {
+    expect(ids('garden cheese')[0]).toBe('ITEM_SALAD');
+  });
+
+  it('returns highlight ranges into the matched text', () => {
+    const [result] = searchIndex(index, 'mozz', 20);
+
+    expect(result.matches).toEqual([
+      {
+        field: 'description',
+        text: 'Tomato, mozzarella and basil',
+        ranges: [{ start: 8, end: 18 }],
+      },
+    ]);
+  });
+
+  it('respects the result limit and ignores empty queries', () => {
+    expect(searchIndex(index, 'cheese', 1)).toHaveLength(1);
+    expect(searchIndex(index, '  !! ', 20)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheKeys, LastKnownGoodCache, MemoryCacheProvider } from '../services/cache.service.js';
+import { FileSnapshotStore } from '../services/snapshot-store.service.js';
+
+describe('FileSnapshotStore', () => {
+  let dir: string;
+  let store: FileSnapshotStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'snapshots-'));
+    store = new FileSnapshotStore(join(dir, 'nested'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('is empty before anything is saved', async () => {
+    expect(await store.loadAll()).toEqual([]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('saves one snapshot per key and overwrites it on the next save', async () => {
+    await store.save('catalog:LOC1', { categories: [] });
+    await store.save('catalog:LOC1', { categories: [{ id: 'CAT1' }] });
+    await store.save('locations', { locations: [] });
+
+    const snapshots = await store.loadAll();
+    expect(snapshots.map((s) => s.key)).toEqual(['catalog:LOC1', 'locations']);
+    expect(snapshots[0].value).toEqual({ categories: [{ id: 'CAT1' }] });
+    expect((await store.list()).map((s) => s.key)).toEqual(['catalog:LOC1', 'locations']);
+  });
+
+  it('skips unreadable snapshot files', async () => {
+    await store.save('locations', { locations: [] });
+    await writeFile(join(dir, 'nested', 'broken.json'), '{"key":');
+
+    expect((await store.loadAll()).map((s) => s.key)).toEqual(['locations']);
+  });
+});
+
+describe('LastKnownGoodCache persistence', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'snapshots-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('restores persisted copies into a fresh cache after a restart', async () => {
+    const before = new LastKnownGoodCache(
+      new MemoryCacheProvider(300),
+      3600,
+      new FileSnapshotStore(dir),
+    );
+    await before.save(CacheKeys.catalog('LOC1'), { categories: [] });
+
+    const cache = new MemoryCacheProvider(300);
+    const after = new LastKnownGoodCache(cache, 3600, new FileSnapshotStore(dir));
+
+    expect(await after.restore()).toBe(1);
+    expect(await cache.get(CacheKeys.lastKnownGood(CacheKeys.catalog('LOC1')))).toEqual({
+      categories: [],
+    });
+  });
+
+  it('does not overwrite a copy already in the cache', async () => {
+    const store = new FileSnapshotStore(dir);
+    await store.save('locations', { locations: [] });
+
+    const cache = new MemoryCacheProvider(300);
+    await cache.set(CacheKeys.lastKnownGood('locations'), { locations: ['newer'] }, 3600);
+
+    expect(await new LastKnownGoodCache(cache, 3600, store).restore()).toBe(0);
+    expect(await cache.get(CacheKeys.lastKnownGood('locations'))).toEqual({
+      locations: ['newer'],
+    });
+  });
+
+  it('does not restore copies older than the TTL', async () => {
+    const store = new FileSnapshotStore(dir);
+    await store.save('locations', { locations: [] });
+
+    const cache = new MemoryCacheProvider(300);
+    const restored = await new LastKnownGoodCache(cache, 60, store).restore(Date.now() + 61_000);
+
+    expect(restored).toBe(0);
+    expect(await cache.has(CacheKeys.lastKnownGood('locations'))).toBe(false);
+  });
+});
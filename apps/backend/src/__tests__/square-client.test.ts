@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import {
+  CircuitBreaker,
+  createSquareClient,
+  parseRetryAfter,
+  retryDelayMs,
+  type SquareRetryOptions,
+} from '../services/square-client.service.js';
+import { AppError } from '../utils/app-error.js';
+
+const SQUARE_BASE_URL = 'https://connect.squareupsandbox.com';
+const RETRY: SquareRetryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50 };
+
+let calls = 0;
+
+const server = setupServer();
+
+/** Responds with each status in turn, then 200 once they run out. */
+function respondWith(statuses: number[], headers: Record<string, string> = {}) {
+  return () => {
+    const status = statuses[calls++];
+    return status
+      ? HttpResponse.json({ errors: [] }, { status, headers })
+      : HttpResponse.json({ locations: [] });
+  };
+}
+
+describe('Square client retries', () => {
+  const client = createSquareClient(SQUARE_BASE_URL, 'test-token', RETRY);
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => {
+    server.resetHandlers();
+    calls = 0;
+  });
+  afterAll(() => server.close());
+
+  it('retries transient failures on GET until one succeeds', async () => {
+    server.use(http.get(`${SQUARE_BASE_URL}/v2/locations`, respondWith([503, 429])));
+
+    const response = await client.get('/locations');
+
+    expect(response.status).toBe(200);
+    expect(calls).toBe(3);
+  });
+
+  it('gives up after maxRetries and maps the error', async () => {
+    server.use(http.get(`${SQUARE_BASE_URL}/v2/locations`, respondWith([500, 500, 500, 500])));
+
+    await expect(client.get('/locations')).rejects.toBeInstanceOf(AppError);
+    expect(calls).toBe(3);
+  });
+
+  it('retries read-only POSTs but not other writes', async () => {
+    server.use(
+      http.post(`${SQUARE_BASE_URL}/v2/catalog/search`, respondWith([502])),
+      http.post(`${SQUARE_BASE_URL}/v2/orders`, respondWith([502])),
+    );
+
+    await client.post('/catalog/search', {});
+    expect(calls).toBe(2);
+
+    calls = 0;
+    await expect(client.post('/orders', {})).rejects.toBeInstanceOf(AppError);
+    expect(calls).toBe(1);
+  });
+
+  it('does not retry client errors', async () => {
+    server.use(http.get(`${SQUARE_BASE_URL}/v2/locations`, respondWith([400])));
+
+    await expect(client.get('/locations')).rejects.toBeInstanceOf(AppError);
+    expect(calls).toBe(1);
+  });
+
+  it('does not wait for a Retry-After beyond maxDelayMs', async () => {
+    server.use(
+      http.get(`${SQUARE_BASE_URL}/v2/locations`, respondWith([429], { 'Retry-After': '30' })),
+    );
+
+    await expect(client.get('/locations')).rejects.toThrow('rate limit');
+    expect(calls).toBe(1);
+  });
+});
+
+describe('retryDelayMs', () => {
+  const options: SquareRetryOptions = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1_000 };
+
+  it('backs off exponentially with full jitter, capped at maxDelayMs', () => {
+    expect(retryDelayMs(0, options, undefined, () => 1)).toBe(100);
+    expect(retryDelayMs(2, options, undefined, () => 1)).toBe(400);
+    expect(retryDelayMs(2, options, undefined, () => 0.5)).toBe(200);
+    expect(retryDelayMs(6, options, undefined, () => 1)).toBe(1_000);
+  });
+
+  it('honors Retry-After over backoff', () => {
+    expect(retryDelayMs(0, options, '0.5', () => 1)).toBe(500);
+    expect(retryDelayMs(0, options, '2', () => 1)).toBeNull();
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2024-06-01T00:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3_000);
+    expect(parseRetryAfter('Sat, 01 Jun 2024 00:00:02 GMT', now)).toBe(2_000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let now = 0;
+  const breaker = () =>
+    new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1_000 }, () => now);
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('opens after consecutive failures and lets one trial through after the reset timeout', () => {
+    const circuit = breaker();
+    circuit.recordFailure();
+    expect(circuit.allowRequest()).toBe(true);
+    circuit.recordFailure();
+
+    expect(circuit.state).toBe('open');
+    expect(circuit.allowRequest()).toBe(false);
+
+    now = 1_000;
+    expect(circuit.allowRequest()).toBe(true);
+    expect(circuit.state).toBe('half-open');
+    expect(circuit.allowRequest()).toBe(false);
+  });
+
+  it('closes when the trial succeeds and reopens when it fails', () => {
+    const circuit = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+
+    now = 1_000;
+    circuit.allowRequest();
+    circuit.recordFailure();
+    expect(circuit.state).toBe('open');
+    expect(circuit.allowRequest()).toBe(false);
+
+    now = 2_000;
+    circuit.allowRequest();
+    circuit.recordSuccess();
+    expect(circuit.state).toBe('closed');
+  });
+
+  it('hands the trial to the next request when the trial is inconclusive', () => {
+    const circuit = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+
+    now = 1_000;
+    circuit.allowRequest();
+    circuit.recordInconclusive();
+
+    expect(circuit.state).toBe('open');
+    expect(circuit.allowRequest()).toBe(true);
+    expect(circuit.state).toBe('half-open');
+  });
+
+  it('resets the failure count on success', () => {
+    const circuit = breaker();
+    circuit.recordFailure();
+    circuit.recordSuccess();
+    circuit.recordFailure();
+
+    expect(circuit.state).toBe('closed');
+  });
+});
+
+describe('Square client circuit breaker', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => {
+    server.resetHandlers();
+    calls = 0;
+  });
+  afterAll(() => server.close());
+
+  it('fails fast with a 503 once the circuit is open', async () => {
+    const client = createSquareClient(
+      SQUARE_BASE_URL,
+      'test-token',
+      { ...RETRY, maxRetries: 0 },
+      { failureThreshold: 2, resetTimeoutMs: 60_000 },
+    );
+    server.use(http.get(`${SQUARE_BASE_URL}/v2/locations`, respondWith([503, 503, 503])));
+
+    await expect(client.get('/locations')).rejects.toMatchObject({ statusCode: 502 });
+    await expect(client.get('/locations')).rejects.toMatchObject({ statusCode: 502 });
+    await expect(client.get('/locations')).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'SQUARE_UNAVAILABLE',
+    });
+    expect(calls).toBe(2);
+  });
+
+  it('sends a new trial after the trial request is cancelled', async () => {
+    const client = createSquareClient(
+      SQUARE_BASE_URL,
+      'test-token',
+      { ...RETRY, maxRetries: 0 },
+      { failureThreshold: 2, resetTimeoutMs: 0 },
+    );
+    server.use(http.get(`${SQUARE_BASE_URL}/v2/locations`, respondWith([503, 503])));
+    await client.get('/locations').catch(() => undefined);
+    await client.get('/locations').catch(() => undefined);
+
+    const cancelled = new AbortController();
+    cancelled.abort();
+    await expect(client.get('/locations', { signal: cancelled.signal })).rejects.toThrow();
+
+    expect((await client.get('/locations')).status).toBe(200);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryCacheProvider } from '../services/cache.service.js';
+import { WebhookEventLog } from '../services/webhook-event.service.js';
+
+describe('WebhookEventLog', () => {
+  let cache: MemoryCacheProvider;
+  let log: WebhookEventLog;
+
+  beforeEach(() => {
+    cache = new MemoryCacheProvider(300);
+    log = new WebhookEventLog(cache, 60);
+  });
+
+  it('claims an event only once', async () => {
+    expect(await log.claim('evt_1')).not.toBeNull();
+    expect(await log.claim('evt_1')).toBeNull();
+    expect(await log.claim('evt_2')).not.toBeNull();
+  });
+
+  it('lets a released event be processed again', async () => {
+    const token = await log.claim('evt_1');
+    await log.release('evt_1', token!);
+
+    expect(await log.claim('evt_1')).not.toBeNull();
+  });
+
+  it('keeps the newest applied catalog version', async () => {
+    await log.recordCatalogVersion('2024-06-02T00:00:00Z');
+    await log.recordCatalogVersion('2024-06-01T00:00:00Z');
+
+    expect(await log.appliedCatalogVersion()).toBe('2024-06-02T00:00:00Z');
+  });
+
+  it('flags catalog events created before the applied version', async () => {
+    expect(await log.isSupersededCatalogEvent('2024-06-01T00:00:00Z')).toBe(false);
+
+    await log.recordCatalogVersion('2024-06-02T00:00:00Z');
+
+    expect(await log.isSupersededCatalogEvent('2024-06-01T23:59:59Z')).toBe(true);
+    expect(await log.isSupersededCatalogEvent('2024-06-02T00:00:00Z')).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import {
+  computeSquareSignature,
+  isValidSquareSignature,
+  verifySquareSignature,
+} from '../middleware/webhook-signature.middleware.js';
+import { AppError } from '../utils/app-error.js';
+
+const SIGNATURE_KEY = 'test-signature-key';
+const NOTIFICATION_URL = 'https://api.example.com/webhooks/square/catalog-updated';
+const RAW_BODY = '{"type":"catalog.version.updated","event_id":"evt_1"}';
+
+/** Create a mock webhook request with the given headers and config. */
+function mockRequest(
+  headers: Record<string, string>,
+  config: Record<string, unknown> = {},
+): Request {
+  return {
+    app: {
+      locals: {
+        config: {
+          NODE_ENV: 'test',
+          SQUARE_WEBHOOK_SIGNATURE_KEY: SIGNATURE_KEY,
+          SQUARE_WEBHOOK_NOTIFICATION_URL: NOTIFICATION_URL,
+          ...config,
+        },
+      },
+    },
+    get: (name: string) => headers[name.toLowerCase()],
+    protocol: 'https',
+    originalUrl: '/webhooks/square/catalog-updated',
+    rawBody: Buffer.from(RAW_BODY),
+  } as unknown as Request;
+}
+
+const mockRes = {} as Response;
+
+describe('computeSquareSignature', () => {
+  it('is stable for the same inputs', () => {
+    const a = computeSquareSignature(SIGNATURE_KEY, NOTIFICATION_URL, RAW_BODY);
+    const b = computeSquareSignature(SIGNATURE_KEY, NOTIFICATION_URL, Buffer.from(RAW_BODY));
+    expect(a).toBe(b);
+  });
+
+  it('changes when the notification URL changes', () => {
+    const a = computeSquareSignature(SIGNATURE_KEY, NOTIFICATION_URL, RAW_BODY);
+    const b = computeSquareSignature(SIGNATURE_KEY, 'https://other.example.com/hook', RAW_BODY);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('isValidSquareSignature', () => {
+  it('accepts the matching signature', () => {
+    const signature = computeSquareSignature(SIGNATURE_KEY, NOTIFICATION_URL, RAW_BODY);
+    expect(isValidSquareSignature(signature, SIGNATURE_KEY, NOTIFICATION_URL, RAW_BODY)).toBe(true);
+  });
+
+  it('rejects a signature for a tampered body', () => {
+    const signature = computeSquareSignature(SIGNATURE_KEY, NOTIFICATION_URL, RAW_BODY);
+    expect(isValidSquareSignature(signature, SIGNATURE_KEY, NOTIFICATION_URL, '{}')).toBe(false);
+  });
+
+  it('rejects a signature of a different length', () => {
+    expect(isValidSquareSignature('short', SIGNATURE_KEY, NOTIFICATION_URL, RAW_BODY)).toBe(false);
+  });
+});
+
+describe('verifySquareSignature', () => {
+  let next: NextFunction;
+
+  beforeEach(() => {
+    next = vi.fn() as NextFunction;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('calls next() without an error for a valid signature', () => {
+    const signature = computeSquareSignature(SIGNATURE_KEY, NOTIFICATION_URL, RAW_BODY);
+    const req = mockRequest({ 'x-square-hmacsha256-signature': signature });
+
+    verifySquareSignature(req, mockRes, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('rejects a missing signature with 401', () => {
+    verifySquareSignature(mockRequest({}), mockRes, next);
+
+    const err = (next as ReturnType<typeof vi.fn>).mock.calls[0][0] as AppError;
+    expect(err).toBeInstanceOf(AppError);
+    expect(err.statusCode).toBe(401);
+    expect(err.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('rejects a bad signature with 401', () => {
+    const req = mockRequest({ 'x-square-hmacsha256-signature': 'bm90LWEtcmVhbC1zaWduYXR1cmU=' });
+
+    verifySquareSignature(req, mockRes, next);
+
+    const err = (next as ReturnType<typeof vi.fn>).mock.calls[0][0] as AppError;
+    expect(err.statusCode).toBe(401);
+  });
+
+  it('derives the notification URL from the request when not configured', () => {
+    const derivedUrl = 'https://backend.example.com/webhooks/square/catalog-updated';
+    const signature = computeSquareSignature(SIGNATURE_KEY, derivedUrl, RAW_BODY);
+    const req = mockRequest(
+      { 'x-square-hmacsha256-signature': signature, host: 'backend.example.com' },
+      { SQUARE_WEBHOOK_NOTIFICATION_URL: undefined },
+    );
+
+    verifySquareSignature(req, mockRes, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('skips verification outside production when no key is configured', () => {
+    const req = mockRequest({}, { SQUARE_WEBHOOK_SIGNATURE_KEY: undefined });
+
+    verifySquareSignature(req, mockRes, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('rejects every delivery in production when no key is configured', () => {
+    const req = mockRequest(
+      {},
+      { SQUARE_WEBHOOK_SIGNATURE_KEY: undefined, NODE_ENV: 'production' },
+    );
+
+    verifySquareSignature(req, mockRes, next);
+
+    const err = (next as ReturnType<typeof vi.fn>).mock.calls[0][0] as AppError;
+    expect(err.statusCode).toBe(401);
+  });
+});
@@ -2,19 +2,98 @@ import express from 'express';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { config } from './services/config.service.js';
-import { createCacheProvider } from './services/cache.service.js';
+import {
+  cacheMessageBus,
+  createCacheProvider,
+  LastKnownGoodCache,
+  SwrCache,
+} from './services/cache.service.js';
 import { createSquareClient } from './services/square-client.service.js';
+import { CatalogSnapshotService } from './services/catalog-snapshot.service.js';
+import { LocationService } from './services/location.service.js';
+import { InventoryService } from './services/inventory.service.js';
+import { CatalogSearchService } from './services/catalog-search.service.js';
+import { WebhookEventLog } from './services/webhook-event.service.js';
+import { CatalogEventBus } from './services/catalog-events.service.js';
+import { CatalogHistory } from './services/catalog-history.service.js';
+import { FileSnapshotStore } from './services/snapshot-store.service.js';
 import { requestLogger } from './middleware/request-logger.middleware.js';
+import { compressResponses } from './middleware/compression.middleware.js';
 import { errorHandler } from './middleware/error-handler.middleware.js';
+import { captureRawBody } from './middleware/webhook-signature.middleware.js';
 import locationsRouter from './routes/locations.route.js';
 import categoriesRouter from './routes/categories.route.js';
+import snapshotsRouter from './routes/snapshots.route.js';
 import catalogRouter from './routes/catalog.route.js';
 import webhooksRouter from './routes/webhooks.route.js';
 
 // ── Bootstrap services ──────────────────────────────────────
 
-const cache = createCacheProvider(config.CACHE_PROVIDER, config.CACHE_TTL_SECONDS, config.REDIS_URL);
-const squareClient = createSquareClient(config.SQUARE_BASE_URL, config.SQUARE_ACCESS_TOKEN);
+const cache = createCacheProvider(config.CACHE_PROVIDER, config.CACHE_TTL_SECONDS, config.REDIS_URL, {
+  l1MaxEntries: config.CACHE_L1_MAX_ENTRIES,
+  l1TtlSeconds: config.CACHE_L1_TTL_SECONDS,
+});
+const squareClient = createSquareClient(
+  config.SQUARE_BASE_URL,
+  config.SQUARE_ACCESS_TOKEN,
+  {
+    maxRetries: config.SQUARE_MAX_RETRIES,
+    baseDelayMs: config.SQUARE_RETRY_BASE_DELAY_MS,
+    maxDelayMs: config.SQUARE_RETRY_MAX_DELAY_MS,
+  },
+  {
+    failureThreshold: config.SQUARE_CIRCUIT_FAILURE_THRESHOLD,
+    resetTimeoutMs: config.SQUARE_CIRCUIT_RESET_MS,
+  },
+);
+const snapshotStore = config.SNAPSHOT_STORE_ENABLED
+  ? new FileSnapshotStore(config.SNAPSHOT_STORE_DIR)
+  : null;
+const lastKnownGood =
+  config.LAST_KNOWN_GOOD_TTL_SECONDS > 0
+    ? new LastKnownGoodCache(cache, config.LAST_KNOWN_GOOD_TTL_SECONDS, snapshotStore ?? undefined)
+    : undefined;
+const swrCache = new SwrCache(
+  cache,
+  config.CACHE_TTL_SECONDS,
+  config.CACHE_TTL_SECONDS + config.CACHE_STALE_TTL_SECONDS,
+  lastKnownGood,
+  // Catalog views load through the snapshot, which may page Square for this long
+  config.SQUARE_PAGINATION_TIMEOUT_MS,
+);
+const catalogSnapshots = new CatalogSnapshotService(
+  squareClient,
+  cache,
+  config.CACHE_TTL_SECONDS,
+  config.CACHE_STALE_TTL_SECONDS,
+  {
+    maxPages: config.SQUARE_MAX_PAGES,
+    timeoutMs: config.SQUARE_PAGINATION_TIMEOUT_MS,
+    onLimit: config.SQUARE_PAGINATION_ON_LIMIT,
+    prefetch: config.SQUARE_PAGINATION_PREFETCH,
+  },
+);
+const locations = new LocationService(
+  squareClient,
+  cache,
+  config.CACHE_TTL_SECONDS,
+  lastKnownGood,
+);
+const inventory = new InventoryService(
+  squareClient,
+  cache,
+  catalogSnapshots,
+  config.INVENTORY_TTL_SECONDS,
+);
+const catalogSearch = new CatalogSearchService(catalogSnapshots, locations);
+const webhookEvents = new WebhookEventLog(cache, config.WEBHOOK_EVENT_RETENTION_SECONDS);
+// With Redis, changes reach catalog streams held by every instance
+const catalogEvents = new CatalogEventBus(cacheMessageBus(cache) ?? undefined);
+const catalogHistory = new CatalogHistory(
+  cache,
+  config.CATALOG_HISTORY_VERSIONS,
+  config.CATALOG_HISTORY_TTL_SECONDS,
+);
 
 // Make services available to route handlers via app.locals
 const app = express();
@@ -23,7 +102,16 @@ const app = express();
 app.set('trust proxy', 1);
 
 app.locals.cache = cache;
+app.locals.swrCache = swrCache;
 app.locals.squareClient = squareClient;
+app.locals.catalogSnapshots = catalogSnapshots;
+app.locals.locations = locations;
+app.locals.inventory = inventory;
+app.locals.catalogSearch = catalogSearch;
+app.locals.webhookEvents = webhookEvents;
+app.locals.catalogEvents = catalogEvents;
+app.locals.catalogHistory = catalogHistory;
+app.locals.snapshotStore = snapshotStore;
 app.locals.config = config;
 
 // ── Global middleware ───────────────────────────────────────
@@ -34,11 +122,16 @@ app.use(
   cors({
     origin: config.CORS_ORIGIN,
     methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type'],
+    allowedHeaders: ['Content-Type', 'If-None-Match'],
+    exposedHeaders: ['ETag', 'Last-Modified', 'X-Cache-Status'],
   }),
 );
 
-app.use(express.json({ limit: '1mb' }));
+// gzip/brotli for JSON responses; the catalog SSE stream is left uncompressed
+app.use(compressResponses);
+
+// Keep the raw body around so webhook signatures can be verified
+app.use(express.json({ limit: '1mb', verify: captureRawBody }));
 
 // Rate limiter: 50 requests per minute per IP
 const limiter = rateLimit({
@@ -64,6 +157,7 @@ app.get('/health', (_req, res) => {
 // API routes
 app.use('/api/locations', locationsRouter);
 app.use('/api/catalog/categories', categoriesRouter);
+app.use('/api/catalog/snapshots', snapshotsRouter);
 app.use('/api/catalog', catalogRouter);
 
 // Webhook routes (no rate limiting on webhooks)
@@ -75,11 +169,24 @@ app.use(errorHandler);
 
 // ── Start server ────────────────────────────────────────────
 
-app.listen(config.PORT, () => {
-  console.info(`[server] Running on http://localhost:${config.PORT}`);
-  console.info(`[server] Environment: ${config.NODE_ENV}`);
-  console.info(`[server] Cache provider: ${config.CACHE_PROVIDER}`);
-  console.info(`[server] Square environment: ${config.SQUARE_ENVIRONMENT}`);
+// Restore persisted last-known-good snapshots first, so the menu can be
+// served even if Square is down when the server comes up
+async function restoreSnapshots(): Promise<void> {
+  try {
+    await lastKnownGood?.restore();
+  } catch (error) {
+    console.error('[snapshot] Failed to restore snapshots from disk:', error);
+  }
+}
+
+restoreSnapshots().then(() => {
+  app.listen(config.PORT, () => {
+    console.info(`[server] Running on http://localhost:${config.PORT}`);
+    console.info(`[server] Environment: ${config.NODE_ENV}`);
+    console.info(`[server] Cache provider: ${config.CACHE_PROVIDER}`);
+    console.info(`[server] Square environment: ${config.SQUARE_ENVIRONMENT}`);
+    console.info(`[server] Snapshot store: ${snapshotStore ? config.SNAPSHOT_STORE_DIR : 'off'}`);
+  });
 });
 
 export default app;
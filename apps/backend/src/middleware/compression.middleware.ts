@@ -0,0 +1,22 @@
+import compression from 'compression';
+import type { Request, Response } from 'express';
+
+/**
+ * Decides whether a response is compressed: whatever compression's default
+ * filter accepts (compressible types, no `Cache-Control: no-transform`),
+ * except Server-Sent Events. zlib buffers output until it has enough to
+ * emit a block, so a compressed catalog stream would hold back change
+ * events and heartbeats instead of delivering them as they are written.
+ */
+export function shouldCompress(req: Request, res: Response): boolean {
+  const contentType = String(res.getHeader('Content-Type') ?? '');
+  if (contentType.startsWith('text/event-stream')) return false;
+
+  return compression.filter(req, res);
+}
+
+/**
+ * Compresses responses over 1 KB with brotli or gzip, whichever the client's
+ * Accept-Encoding prefers (brotli when both are equally acceptable).
+ */
+export const compressResponses = compression({ filter: shouldCompress });
@@ -0,0 +1,95 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { EnvConfig } from '../services/config.service.js';
+import { AppError } from '../utils/app-error.js';
+
+/** Header Square uses to carry the HMAC-SHA256 signature of a notification. */
+export const SQUARE_SIGNATURE_HEADER = 'x-square-hmacsha256-signature';
+
+/** Request with the unparsed body bytes captured by `captureRawBody`. */
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+/**
+ * `verify` hook for `express.json()` that keeps the raw body bytes.
+ * Signatures are computed over the exact bytes Square sent, so the
+ * re-serialized `req.body` cannot be used.
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buf;
+}
+
+/**
+ * Computes Square's webhook signature: base64(HMAC-SHA256(key, notificationUrl + body)).
+ * See: https://developer.squareup.com/docs/webhooks/step3validate
+ */
+export function computeSquareSignature(
+  signatureKey: string,
+  notificationUrl: string,
+  rawBody: string | Buffer,
+): string {
+  return createHmac('sha256', signatureKey)
+    .update(notificationUrl)
+    .update(rawBody)
+    .digest('base64');
+}
+
+/** Constant-time comparison of a received signature against the expected one. */
+export function isValidSquareSignature(
+  signature: string,
+  signatureKey: string,
+  notificationUrl: string,
+  rawBody: string | Buffer,
+): boolean {
+  const expected = Buffer.from(computeSquareSignature(signatureKey, notificationUrl, rawBody));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Rejects webhook deliveries whose `x-square-hmacsha256-signature` header
+ * does not match the raw body signed with SQUARE_WEBHOOK_SIGNATURE_KEY.
+ *
+ * The notification URL is part of the signed payload. It comes from
+ * SQUARE_WEBHOOK_NOTIFICATION_URL when set, otherwise it is rebuilt from
+ * the request (relies on `trust proxy` for the public protocol and host).
+ *
+ * Without a signature key, verification is skipped outside production
+ * so local development with ngrok keeps working; in production every
+ * delivery is rejected until the key is configured.
+ */
+export function verifySquareSignature(req: Request, _res: Response, next: NextFunction): void {
+  const config = req.app.locals.config as EnvConfig;
+  const signatureKey = config.SQUARE_WEBHOOK_SIGNATURE_KEY;
+
+  if (!signatureKey) {
+    if (config.NODE_ENV === 'production') {
+      console.error('[webhook] SQUARE_WEBHOOK_SIGNATURE_KEY is not configured, rejecting delivery');
+      return next(signatureError());
+    }
+    console.warn('[webhook] SQUARE_WEBHOOK_SIGNATURE_KEY not set, skipping signature verification');
+    return next();
+  }
+
+  const signature = req.get(SQUARE_SIGNATURE_HEADER);
+  if (!signature) {
+    console.warn('[webhook] Rejected delivery without signature header');
+    return next(signatureError('Missing webhook signature'));
+  }
+
+  const rawBody = (req as RawBodyRequest).rawBody ?? Buffer.alloc(0);
+  const notificationUrl =
+    config.SQUARE_WEBHOOK_NOTIFICATION_URL ??
+    `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+
+  if (!isValidSquareSignature(signature, signatureKey, notificationUrl, rawBody)) {
+    console.warn(`[webhook] Rejected delivery with invalid signature for ${notificationUrl}`);
+    return next(signatureError());
+  }
+
+  next();
+}
+
+function signatureError(message = 'Webhook signature verification failed'): AppError {
+  return AppError.unauthorized(message, 'INVALID_SIGNATURE');
+}
@@ -1,44 +1,146 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import type { AxiosInstance } from 'axios';
 import { z } from 'zod';
 import type {
-  SquareSearchCatalogResponse,
-  SquareCatalogObject,
-  SquareCatalogItem,
   CatalogResponse,
+  CatalogItemResponse,
+  CatalogSearchResponse,
+  CategoryGroup,
+  SparseMenuItem,
 } from '@per-diem/shared-types';
-import type { CacheProvider } from '../services/cache.service.js';
+import { DIETARY_TAGS } from '@per-diem/shared-types';
+import type { SwrCache, SwrResult } from '../services/cache.service.js';
 import { CacheKeys } from '../services/cache.service.js';
+import {
+  type CatalogSnapshotService,
+  snapshotItemAtLocation,
+  snapshotItemsAtLocation,
+} from '../services/catalog-snapshot.service.js';
+import type { CatalogSearchService } from '../services/catalog-search.service.js';
+import type { CatalogEventBus } from '../services/catalog-events.service.js';
+import type { CatalogHistory } from '../services/catalog-history.service.js';
+import type { EnvConfig } from '../services/config.service.js';
+import {
+  type InventoryLevels,
+  type InventoryService,
+  applyInventoryLevels,
+  withInventory,
+} from '../services/inventory.service.js';
+import type { LocationService } from '../services/location.service.js';
 import { validate } from '../middleware/validation.middleware.js';
-import { aggregateSquarePages } from '../utils/pagination.js';
 import {
-  filterItemsByLocation,
   groupItemsByCategory,
+  transformCatalogItemDetail,
 } from '../transformers/square-catalog.transformer.js';
+import { filterCatalog } from '../utils/catalog-filters.js';
+import {
+  CATALOG_FIELDS,
+  compactCatalog,
+  itemFieldSelector,
+  selectCatalogFields,
+} from '../utils/catalog-fields.js';
+import { AppError } from '../utils/app-error.js';
+import { remainingMaxAge, sendWithCacheHeaders } from '../utils/http-cache.js';
 
 const router = Router();
 
+/** How often an idle catalog stream sends a comment, so proxies don't drop it. */
+const STREAM_HEARTBEAT_MS = 25_000;
+/** How long browsers wait before reconnecting a dropped catalog stream. */
+const STREAM_RETRY_MS = 5_000;
+
 // Validation schema for query parameters
 const catalogQuerySchema = z.object({
   location_id: z.string().min(1, 'location_id is required'),
 });
 
+/** Accepts `?key=a,b`, `?key=a&key=b` and `?key[]=a&key[]=b` alike. */
+const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) =>
+      value === undefined
+        ? undefined
+        : (Array.isArray(value) ? value : [value])
+            .flatMap((v) => String(v).split(','))
+            .map((v) => v.trim())
+            .filter(Boolean),
+    z.array(item).optional(),
+  );
+
+/** Sparse fieldset: `?fields=name,variations.priceFormatted` (see utils/catalog-fields). */
+const fieldsParam = listParam(z.enum(CATALOG_FIELDS));
+
+const catalogFiltersQuerySchema = catalogQuerySchema.extend({
+  min_price: z.coerce.number().nonnegative().optional(),
+  max_price: z.coerce.number().nonnegative().optional(),
+  category_ids: listParam(z.string().min(1)),
+  dietary: listParam(z.enum(DIETARY_TAGS)),
+  fields: fieldsParam,
+  compact: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((v) => v === 'true'),
+});
+
+const searchQuerySchema = catalogQuerySchema.extend({
+  q: z.string().trim().min(1, 'q is required').max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  fields: fieldsParam,
+});
+
+const itemQuerySchema = catalogQuerySchema.extend({
+  fields: fieldsParam,
+});
+
+const changesQuerySchema = catalogQuerySchema.extend({
+  since_version: z.coerce.number().int().nonnegative(),
+});
+
+const itemParamsSchema = z.object({
+  itemId: z.string().min(1, 'itemId is required'),
+});
+
 /**
- * GET /api/catalog?location_id=<ID>
+ * GET /api/catalog?location_id=<ID>[&min_price=&max_price=&category_ids[]=&dietary=]
+ *                 [&fields=&compact=]
  *
  * Returns full catalog with items grouped by category for a specific location.
  *
  * Process:
- * 1. Fetch ALL catalog items from Square (handles pagination automatically)
- * 2. Include related_objects (categories, images, variations) via Square API
+ * 1. Load the shared catalog snapshot (fetched from Square once, see CatalogSnapshotService)
+ * 2. Use the snapshot's indexed categories, images and variations as related objects
  * 3. Filter items to only those present at the specified location
  * 4. For each item:
  *    - Join category_id → category name from related_objects
  *    - Join image_ids[0] → image URL from related_objects
- *    - Extract variations with formatted prices
+ *    - Extract variations with this location's price overrides and availability
+ *    - Format prices in the money's currency using the location's locale
+ *    - Collect dietary tags from Square item labels and custom attributes
  * 5. Group items by category name
  * 6. Sort categories alphabetically
- * 7. Cache for 5 minutes per location
+ * 7. Cache per location: fresh for CACHE_TTL_SECONDS, then served stale for up to
+ *    CACHE_STALE_TTL_SECONDS while one background refresh rebuilds it
+ * 8. Apply the optional price, category and dietary filters to the cached catalog
+ * 9. Merge stock levels from Square's inventory API, cached separately for
+ *    INVENTORY_TTL_SECONDS: tracked variations get `in_stock` and
+ *    `quantity_remaining`, and items with nothing left get `in_stock: false`
+ * 10. Trim items to the `fields=` sparse fieldset, if given (e.g.
+ *     `fields=name,variations.priceFormatted`; `id` is always kept)
+ * 11. With `compact=true`, return categories once and a flat `items` list
+ *     whose entries carry `category_id` instead of the category name
+ *
+ * The X-Cache-Status header says whether the catalog was fresh, stale or a miss.
+ * If Square is unavailable on a miss, the last-known-good catalog is served
+ * with X-Cache-Status: degraded and `degraded: true` in the body.
+ * `partial: true` means Square's catalog had more pages than the page or
+ * time budget allowed (SQUARE_MAX_PAGES / SQUARE_PAGINATION_TIMEOUT_MS).
+ * `version` identifies the catalog for GET /api/catalog/changes.
+ *
+ * Conditional GETs: the response carries a weak ETag (hash of the body),
+ * Last-Modified (when the cached catalog was built) and
+ * `Cache-Control: public, max-age=<seconds>` for the rest of the catalog's
+ * CACHE_TTL_SECONDS, capped at INVENTORY_TTL_SECONDS because stock levels
+ * are part of the body (0 for stale or degraded catalogs). A request whose
+ * If-None-Match holds the current ETag gets an empty 304 Not Modified.
  *
  * Response:
  * {
@@ -53,80 +155,320 @@ const catalogQuerySchema = z.object({
  *           description: "Classic pizza with...",
  *           category: "Pizza",
  *           image_url: "https://...",
+ *           dietary_tags: ["vegetarian"],
+ *           in_stock: true,
  *           variations: [
- *             { id: "VAR1", name: "Small", priceDollars: 12.50, priceFormatted: "$12.50" }
+ *             {
+ *               id: "VAR1", name: "Small", priceDollars: 12.50, priceFormatted: "$12.50",
+ *               is_available: true, in_stock: true, quantity_remaining: 8
+ *             }
  *           ]
  *         }
  *       ]
  *     }
- *   ]
+ *   ],
+ *   version: 1718000000000
  * }
  */
 router.get(
   '/',
-  validate({ query: catalogQuerySchema }),
+  validate({ query: catalogFiltersQuerySchema }),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { location_id } = req.query as { location_id: string };
-      const cache = req.app.locals.cache as CacheProvider;
-      const squareClient = req.app.locals.squareClient as AxiosInstance;
-      const cacheKey = CacheKeys.catalog(location_id);
-
-      // Check cache first
-      const cached = await cache.get<CatalogResponse>(cacheKey);
-      if (cached) {
-        console.info(`[cache] HIT: catalog:${location_id}`);
-        return res.json(cached);
+      const { location_id, fields, compact, ...filters } = req.query as unknown as z.infer<
+        typeof catalogFiltersQuerySchema
+      >;
+      if (
+        filters.min_price !== undefined &&
+        filters.max_price !== undefined &&
+        filters.min_price > filters.max_price
+      ) {
+        throw AppError.badRequest('min_price must not exceed max_price', 'VALIDATION_ERROR');
       }
 
-      console.info(`[cache] MISS: catalog:${location_id}`);
-
-      // Aggregate all catalog items across all pages
-      const allRelatedObjects: SquareCatalogObject[] = [];
-      let allItems: SquareCatalogItem[] = [];
-
-      const catalogObjects = await aggregateSquarePages<SquareCatalogObject>(
-        async (cursor?: string) => {
-          const response = await squareClient.post<SquareSearchCatalogResponse>('/catalog/search', {
-            object_types: ['ITEM'],
-            include_related_objects: true,
-            limit: 100,
-            cursor,
-          });
-
-          // Accumulate related_objects across all pages
-          if (response.data.related_objects) {
-            allRelatedObjects.push(...response.data.related_objects);
-          }
-
-          return {
-            objects: response.data.objects,
-            cursor: response.data.cursor,
-          };
-        },
-      );
-
-      // Filter to only ITEM types
-      allItems = catalogObjects.filter((obj): obj is SquareCatalogItem => obj.type === 'ITEM');
-
-      // Filter items by location
-      const locationItems = filterItemsByLocation(allItems, location_id);
-
-      if (locationItems.length === 0) {
-        console.warn(`[catalog] No items found for location ${location_id}`);
-        const emptyResult: CatalogResponse = { categories: [] };
-        await cache.set(cacheKey, emptyResult, req.app.locals.config.CACHE_TTL_SECONDS);
-        return res.json(emptyResult);
-      }
+      const config = req.app.locals.config as EnvConfig;
+      const { value: catalog, freshness, storedAt } = await loadCatalog(req, location_id);
+      const levels = await loadInventory(req, location_id);
+      const categories = applyInventoryLevels(filterCatalog(catalog.categories, filters), levels);
+      const result: CatalogResponse<SparseMenuItem> = {
+        categories: selectCatalogFields(categories, fields),
+        ...(freshness === 'degraded' && { degraded: true }),
+        ...(catalog.partial && { partial: true }),
+        ...(catalog.version !== undefined && { version: catalog.version }),
+      };
+
+      res.set('X-Cache-Status', freshness);
+      sendWithCacheHeaders(req, res, compact ? compactCatalog(result) : result, {
+        lastModified: storedAt,
+        maxAgeSeconds: Math.min(
+          remainingMaxAge(storedAt, config.CACHE_TTL_SECONDS),
+          config.INVENTORY_TTL_SECONDS,
+        ),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
 
-      // Group items by category
-      const categoryGroups = groupItemsByCategory(locationItems, allRelatedObjects);
+/**
+ * Returns the unfiltered catalog for a location through the
+ * stale-while-revalidate cache, building it from the shared snapshot on a
+ * miss. Filters are applied afterwards so every filter combination shares
+ * one cache entry.
+ */
+async function loadCatalog(req: Request, location_id: string): Promise<SwrResult<CatalogResponse>> {
+  const swrCache = req.app.locals.swrCache as SwrCache;
+
+  return swrCache.get(CacheKeys.catalog(location_id), () => buildCatalog(req, location_id));
+}
+
+/**
+ * Returns current stock levels for a location. Stock is an overlay on the
+ * menu, so if Square's inventory API fails the menu is served without it
+ * rather than failing the request.
+ */
+async function loadInventory(req: Request, location_id: string): Promise<InventoryLevels> {
+  const inventory = req.app.locals.inventory as InventoryService;
+
+  try {
+    return await inventory.getLevels(location_id);
+  } catch (error) {
+    console.warn(
+      `[inventory] Serving ${location_id} without stock levels: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+    return {};
+  }
+}
+
+/**
+ * Builds a location's catalog from the shared snapshot and records it in the
+ * catalog history, which assigns the version clients diff against.
+ */
+async function buildCatalog(req: Request, location_id: string): Promise<CatalogResponse> {
+  const catalogSnapshots = req.app.locals.catalogSnapshots as CatalogSnapshotService;
+  const locations = req.app.locals.locations as LocationService;
+  const catalogHistory = req.app.locals.catalogHistory as CatalogHistory;
+
+  // Derive the location view from a fresh snapshot (the view is cached itself)
+  const snapshot = await catalogSnapshots.getFreshSnapshot();
+
+  // Filter items by location
+  const locationItems = snapshotItemsAtLocation(snapshot, location_id);
+
+  const partial = snapshot.partial ? { partial: true } : {};
+
+  let categoryGroups: CategoryGroup[] = [];
+  if (locationItems.length === 0) {
+    console.warn(`[catalog] No items found for location ${location_id}`);
+  } else {
+    // Group items by category, joining related objects through the snapshot's indexes
+    const priceFormat = await locations.getPriceFormat(location_id);
+    categoryGroups = groupItemsByCategory(locationItems, snapshot, location_id, priceFormat);
+  }
 
-      const result: CatalogResponse = { categories: categoryGroups };
+  const version = await catalogHistory.record(location_id, snapshot.version ?? 0, categoryGroups);
+  return { categories: categoryGroups, ...partial, version };
+}
+
+/**
+ * GET /api/catalog/search?location_id=<ID>&q=<query>[&limit=20]
+ *
+ * Ranked full-text search over a location's menu.
+ * - Searches item name, category, variation names and description
+ * - Prefix matching ("marg" → "Margherita") and typo tolerance ("chese" → "Cheese")
+ * - Field boosts: name > category > variation > description
+ * - Each result carries highlight ranges per matched field
+ * - Result items carry current stock levels, as on GET /api/catalog
+ * - `fields=` trims result items to a sparse fieldset, as on GET /api/catalog
+ *
+ * Response:
+ * {
+ *   query: "chese",
+ *   results: [
+ *     {
+ *       item: { id: "ITEM123", name: "Cheese Pizza", ... },
+ *       score: 1.8,
+ *       matches: [{ field: "name", text: "Cheese Pizza", ranges: [{ start: 0, end: 6 }] }]
+ *     }
+ *   ]
+ * }
+ */
+router.get(
+  '/search',
+  validate({ query: searchQuerySchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { location_id, q, limit, fields } = req.query as unknown as z.infer<
+        typeof searchQuerySchema
+      >;
+      const catalogSearch = req.app.locals.catalogSearch as CatalogSearchService;
+
+      const { results, ...search } = await catalogSearch.search(location_id, q, limit);
+      const levels = await loadInventory(req, location_id);
+      const select = itemFieldSelector(fields);
+      const response: CatalogSearchResponse<SparseMenuItem> = {
+        ...search,
+        results: results.map((result) => ({
+          ...result,
+          item: select(withInventory(result.item, levels)),
+        })),
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/catalog/changes?location_id=<ID>&since_version=<version>
+ *
+ * Lists what changed in a location's catalog since a version the client
+ * holds (the `version` of an earlier GET /api/catalog or changes response),
+ * so partners mirroring the menu don't have to download all of it again.
+ * - Items and categories are compared as served by GET /api/catalog,
+ *   before filters and stock levels are applied
+ * - Added and updated entries are returned whole; removed ones by ID
+ * - The last CATALOG_HISTORY_VERSIONS versions per location are kept. For an
+ *   older or unknown version the response has `resync_required: true` and
+ *   the client should fetch GET /api/catalog again
+ *
+ * Response:
+ * {
+ *   location_id: "LOC1",
+ *   since_version: 1718000000000,
+ *   version: 1718000360000,
+ *   resync_required: false,
+ *   items: { added: [{ id: "ITEM9", ... }], updated: [...], removed: ["ITEM3"] },
+ *   categories: { added: [], updated: [{ id: "CAT1", name: "Pizza", item_count: 4 }], removed: [] }
+ * }
+ */
+router.get(
+  '/changes',
+  validate({ query: changesQuerySchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { location_id, since_version } = req.query as unknown as z.infer<
+        typeof changesQuerySchema
+      >;
+      const catalogHistory = req.app.locals.catalogHistory as CatalogHistory;
+
+      const { value: catalog, freshness } = await loadCatalog(req, location_id);
+
+      res.set('X-Cache-Status', freshness);
+      res.json(await catalogHistory.changesSince(location_id, since_version, catalog));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/catalog/stream?location_id=<ID>
+ *
+ * Server-Sent Events stream of menu changes for a location, so open
+ * browser tabs can refetch as soon as a webhook has been processed
+ * instead of waiting for their cached copy to go stale.
+ * - One `catalog.changed` event per webhook that affects the location
+ * - The event carries what changed, not the new menu; clients refetch it
+ * - A comment line every 25s keeps idle connections open through proxies
+ *
+ * Stream:
+ * retry: 5000
+ *
+ * id: evt_abc123
+ * event: catalog.changed
+ * data: {"type":"inventory","location_id":"LOC1","event_id":"evt_abc123","changed_at":"..."}
+ */
+router.get(
+  '/stream',
+  validate({ query: catalogQuerySchema }),
+  (req: Request, res: Response) => {
+    const { location_id } = req.query as { location_id: string };
+    const catalogEvents = req.app.locals.catalogEvents as CatalogEventBus;
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop nginx-style proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+    const unsubscribe = catalogEvents.subscribe(location_id, (event) => {
+      res.write(`id: ${event.event_id}\nevent: catalog.changed\n`);
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+    console.info(
+      `[stream] Client subscribed to ${location_id} (${catalogEvents.subscriberCount} open)`,
+    );
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      console.info(`[stream] Client left ${location_id} (${catalogEvents.subscriberCount} open)`);
+    });
+  },
+);
+
+/**
+ * GET /api/catalog/items/:itemId?location_id=<ID>
+ *
+ * Returns a single item as sold at a specific location, for deep links
+ * and single-SKU lookups by partner systems.
+ * - Resolves the item from the shared catalog snapshot (no extra Square call)
+ * - 404 if the item doesn't exist or isn't sold at the location
+ * - Includes every image and all variations with per-location availability
+ *   and stock levels
+ * - `fields=` trims the item to a sparse fieldset, as on GET /api/catalog
+ *
+ * Response:
+ * {
+ *   item: {
+ *     id: "ITEM123",
+ *     name: "Margherita Pizza",
+ *     category: "Pizza",
+ *     image_url: "https://...",
+ *     image_urls: ["https://...", "https://..."],
+ *     variations: [
+ *       {
+ *         id: "VAR1", name: "Small", priceDollars: 12.50, priceFormatted: "$12.50",
+ *         is_available: true, in_stock: true, quantity_remaining: 8
+ *       }
+ *     ]
+ *   }
+ * }
+ */
+router.get(
+  '/items/:itemId',
+  validate({ params: itemParamsSchema, query: itemQuerySchema }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { itemId } = req.params as { itemId: string };
+      const { location_id, fields } = req.query as unknown as z.infer<typeof itemQuerySchema>;
+      const catalogSnapshots = req.app.locals.catalogSnapshots as CatalogSnapshotService;
+      const locations = req.app.locals.locations as LocationService;
+
+      const snapshot = await catalogSnapshots.getSnapshot();
+      const item = snapshotItemAtLocation(snapshot, itemId, location_id);
+
+      if (!item) {
+        throw AppError.notFound(`Item ${itemId} is not sold at location ${location_id}`);
+      }
 
-      // Cache for 5 minutes
-      const ttl = req.app.locals.config.CACHE_TTL_SECONDS;
-      await cache.set(cacheKey, result, ttl);
+      const priceFormat = await locations.getPriceFormat(location_id);
+      const detail = transformCatalogItemDetail(item, snapshot, location_id, priceFormat);
+      const select = itemFieldSelector(fields);
+      const result: CatalogItemResponse<SparseMenuItem> = {
+        item: select(withInventory(detail, await loadInventory(req, location_id))),
+      };
 
       res.json(result);
     } catch (error) {
@@ -1,20 +1,16 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import type { AxiosInstance } from 'axios';
 import { z } from 'zod';
-import type {
-  SquareSearchCatalogResponse,
-  SquareCatalogObject,
-  SquareCatalogItem,
-  CategoriesResponse,
-} from '@per-diem/shared-types';
-import type { CacheProvider } from '../services/cache.service.js';
+import type { CategoriesResponse } from '@per-diem/shared-types';
+import type { SwrCache } from '../services/cache.service.js';
 import { CacheKeys } from '../services/cache.service.js';
-import { validate } from '../middleware/validation.middleware.js';
-import { aggregateSquarePages } from '../utils/pagination.js';
+import type { EnvConfig } from '../services/config.service.js';
 import {
-  extractCategoriesFromRelatedObjects,
-  filterItemsByLocation,
-} from '../transformers/square-catalog.transformer.js';
+  type CatalogSnapshotService,
+  snapshotItemsAtLocation,
+} from '../services/catalog-snapshot.service.js';
+import { validate } from '../middleware/validation.middleware.js';
+import { extractCategoriesFromRelatedObjects } from '../transformers/square-catalog.transformer.js';
+import { remainingMaxAge, sendWithCacheHeaders } from '../utils/http-cache.js';
 
 const router = Router();
 
@@ -28,11 +24,17 @@ const categoriesQuerySchema = z.object({
  *
  * Returns categories that have items at the specified location.
  * - Validates location_id query param
- * - Fetches all catalog items from Square (with pagination)
+ * - Loads the shared catalog snapshot (one Square fetch for all catalog routes)
  * - Filters items by location presence
- * - Extracts categories from related_objects
+ * - Extracts categories from the snapshot's indexed categories
  * - Counts items per category
- * - Caches per location_id for 5 minutes
+ * - Caches per location_id with stale-while-revalidate (see SwrCache);
+ *   X-Cache-Status reports fresh, stale or miss
+ * - Flags `partial: true` if the snapshot was cut short by the page budget
+ * - Serves the last-known-good categories with `degraded: true` (and
+ *   X-Cache-Status: degraded) when Square is unavailable on a miss
+ * - Sends a weak ETag, Last-Modified and Cache-Control max-age for the rest
+ *   of CACHE_TTL_SECONDS; a matching If-None-Match gets 304 Not Modified
  */
 router.get(
   '/',
@@ -40,67 +42,40 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { location_id } = req.query as { location_id: string };
-      const cache = req.app.locals.cache as CacheProvider;
-      const squareClient = req.app.locals.squareClient as AxiosInstance;
-      const cacheKey = CacheKeys.categories(location_id);
-
-      // Check cache first
-      const cached = await cache.get<CategoriesResponse>(cacheKey);
-      if (cached) {
-        console.info(`[cache] HIT: categories:${location_id}`);
-        return res.json(cached);
-      }
+      const swrCache = req.app.locals.swrCache as SwrCache;
+      const config = req.app.locals.config as EnvConfig;
+      const catalogSnapshots = req.app.locals.catalogSnapshots as CatalogSnapshotService;
 
-      console.info(`[cache] MISS: categories:${location_id}`);
+      const { value: result, freshness, storedAt } = await swrCache.get<CategoriesResponse>(
+        CacheKeys.categories(location_id),
+        async () => {
+          // Derive the location view from a fresh snapshot (the view is cached itself)
+          const snapshot = await catalogSnapshots.getFreshSnapshot();
 
-      // Aggregate all pages from Square SearchCatalogObjects
-      const allRelatedObjects: SquareCatalogObject[] = [];
-      let allItems: SquareCatalogItem[] = [];
+          // Filter items by location
+          const locationItems = snapshotItemsAtLocation(snapshot, location_id);
 
-      const catalogObjects = await aggregateSquarePages<SquareCatalogObject>(
-        async (cursor?: string) => {
-          const response = await squareClient.post<SquareSearchCatalogResponse>('/catalog/search', {
-            object_types: ['ITEM'],
-            include_related_objects: true,
-            limit: 100,
-            cursor,
-          });
+          const partial = snapshot.partial ? { partial: true } : {};
 
-          // Accumulate related_objects across pages
-          if (response.data.related_objects) {
-            allRelatedObjects.push(...response.data.related_objects);
+          if (locationItems.length === 0) {
+            console.warn(`[categories] No items found for location ${location_id}`);
+            return { categories: [], ...partial };
           }
 
+          // Extract categories from the snapshot's category index
           return {
-            objects: response.data.objects,
-            cursor: response.data.cursor,
+            categories: extractCategoriesFromRelatedObjects(snapshot, locationItems),
+            ...partial,
           };
         },
       );
 
-      // Filter to only ITEM types (TypeScript narrowing)
-      allItems = catalogObjects.filter((obj): obj is SquareCatalogItem => obj.type === 'ITEM');
-
-      // Filter items by location
-      const locationItems = filterItemsByLocation(allItems, location_id);
-
-      if (locationItems.length === 0) {
-        console.warn(`[categories] No items found for location ${location_id}`);
-        const emptyResult: CategoriesResponse = { categories: [] };
-        await cache.set(cacheKey, emptyResult, req.app.locals.config.CACHE_TTL_SECONDS);
-        return res.json(emptyResult);
-      }
-
-      // Extract categories from related_objects
-      const categories = extractCategoriesFromRelatedObjects(allRelatedObjects, locationItems);
-
-      const result: CategoriesResponse = { categories };
-
-      // Cache for 5 minutes
-      const ttl = req.app.locals.config.CACHE_TTL_SECONDS;
-      await cache.set(cacheKey, result, ttl);
-
-      res.json(result);
+      res.set('X-Cache-Status', freshness);
+      const body = freshness === 'degraded' ? { ...result, degraded: true } : result;
+      sendWithCacheHeaders(req, res, body, {
+        lastModified: storedAt,
+        maxAgeSeconds: remainingMaxAge(storedAt, config.CACHE_TTL_SECONDS),
+      });
     } catch (error) {
       next(error);
     }
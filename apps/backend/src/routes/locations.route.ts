@@ -1,14 +1,7 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import type { AxiosInstance } from 'axios';
-import type {
-  SquareListLocationsResponse,
-  SquareLocation,
-  LocationsResponse,
-} from '@per-diem/shared-types';
-import type { CacheProvider } from '../services/cache.service.js';
-import { CacheKeys } from '../services/cache.service.js';
-import { transformSquareLocation } from '../transformers/square-location.transformer.js';
-import { AppError } from '../utils/app-error.js';
+import type { LocationService } from '../services/location.service.js';
+import type { EnvConfig } from '../services/config.service.js';
+import { remainingMaxAge, sendWithCacheHeaders } from '../utils/http-cache.js';
 
 const router = Router();
 
@@ -16,47 +9,25 @@ const router = Router();
  * GET /api/locations
  *
  * Returns all ACTIVE locations from Square.
- * - Calls Square List Locations API
+ * - Calls Square List Locations API (via LocationService)
  * - Filters to only ACTIVE status
- * - Transforms to simplified Location type
+ * - Transforms to simplified Location type, including the price locale
  * - Caches for 5 minutes
+ * - Serves the last-known-good locations with `degraded: true` when Square is unavailable
+ * - Sends a weak ETag, Last-Modified and Cache-Control max-age for the rest
+ *   of CACHE_TTL_SECONDS; a matching If-None-Match gets 304 Not Modified
  */
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const cache = req.app.locals.cache as CacheProvider;
-    const squareClient = req.app.locals.squareClient as AxiosInstance;
-    const cacheKey = CacheKeys.locations();
+    const locations = req.app.locals.locations as LocationService;
+    const config = req.app.locals.config as EnvConfig;
 
-    // Check cache first
-    const cached = await cache.get<LocationsResponse>(cacheKey);
-    if (cached) {
-      console.info('[cache] HIT: locations');
-      return res.json(cached);
-    }
+    const { value: result, storedAt } = await locations.getLocationsResult();
 
-    console.info('[cache] MISS: locations');
-
-    // Fetch from Square API
-    const response = await squareClient.get<SquareListLocationsResponse>('/locations');
-
-    if (!response.data.locations) {
-      throw AppError.upstream('Square API returned no locations');
-    }
-
-    // Filter to ACTIVE only and transform
-    const activeLocations = response.data.locations
-      .filter((loc: SquareLocation) => loc.status === 'ACTIVE')
-      .map(transformSquareLocation);
-
-    const result: LocationsResponse = {
-      locations: activeLocations,
-    };
-
-    // Cache for 5 minutes
-    const ttl = req.app.locals.config.CACHE_TTL_SECONDS;
-    await cache.set(cacheKey, result, ttl);
-
-    res.json(result);
+    sendWithCacheHeaders(req, res, result, {
+      lastModified: storedAt,
+      maxAgeSeconds: remainingMaxAge(storedAt, config.CACHE_TTL_SECONDS),
+    });
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,56 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import type { SnapshotsResponse } from '@per-diem/shared-types';
+import type { SnapshotStore } from '../services/cache.service.js';
+
+const router = Router();
+
+/** Prefixes of per-location snapshot keys, e.g. "catalog:LOC1". */
+const LOCATION_KEY_PREFIXES = ['catalog:', 'categories:'];
+
+/**
+ * GET /api/catalog/snapshots
+ *
+ * Lists the last-known-good snapshots persisted on disk and how old they
+ * are, to check what the menu would fall back to if Square went down.
+ * - `enabled: false` with no snapshots when SNAPSHOT_STORE_ENABLED is off
+ * - Oldest snapshot first
+ *
+ * Response:
+ * {
+ *   enabled: true,
+ *   snapshots: [
+ *     { key: "catalog:LOC1", location_id: "LOC1", saved_at: "2024-01-01T00:00:00Z", age_seconds: 42 }
+ *   ]
+ * }
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = req.app.locals.snapshotStore as SnapshotStore | null;
+    if (!store) {
+      const result: SnapshotsResponse = { enabled: false, snapshots: [] };
+      return res.json(result);
+    }
+
+    const now = Date.now();
+    const result: SnapshotsResponse = {
+      enabled: true,
+      snapshots: (await store.list())
+        .map(({ key, saved_at }) => {
+          const prefix = LOCATION_KEY_PREFIXES.find((p) => key.startsWith(p));
+          return {
+            key,
+            ...(prefix && { location_id: key.slice(prefix.length) }),
+            saved_at,
+            age_seconds: Math.max(0, Math.floor((now - Date.parse(saved_at)) / 1000)),
+          };
+        })
+        .sort((a, b) => b.age_seconds - a.age_seconds),
+    };
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,17 +1,169 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import type { SquareWebhookEvent } from '@per-diem/shared-types';
-import type { CacheProvider } from '../services/cache.service.js';
+import type {
+  CatalogChangeType,
+  SquareCatalogVersionUpdatedObject,
+  SquareInventoryCountUpdatedObject,
+  SquareWebhookEvent,
+} from '@per-diem/shared-types';
+import { CacheKeys, type CacheProvider } from '../services/cache.service.js';
+import type {
+  AffectedLocations,
+  CatalogSnapshotService,
+  CatalogSyncResult,
+} from '../services/catalog-snapshot.service.js';
+import type { CatalogEventBus } from '../services/catalog-events.service.js';
+import type { CatalogSearchService } from '../services/catalog-search.service.js';
+import type { InventoryService } from '../services/inventory.service.js';
+import type { LocationService } from '../services/location.service.js';
+import type { WebhookEventLog } from '../services/webhook-event.service.js';
+import { verifySquareSignature } from '../middleware/webhook-signature.middleware.js';
 
 const router = Router();
 
+/** Handles one webhook event type and returns the extra fields for the response body. */
+type WebhookHandler = (
+  req: Request,
+  event: SquareWebhookEvent,
+) => Promise<Record<string, unknown>>;
+
+/** Tells open catalog streams (GET /api/catalog/stream) which locations changed. */
+function notifyStreams(
+  req: Request,
+  event: SquareWebhookEvent,
+  type: CatalogChangeType,
+  locations: AffectedLocations,
+): void {
+  const catalogEvents = req.app.locals.catalogEvents as CatalogEventBus;
+  catalogEvents.publish({ type, locations, event_id: event.event_id });
+}
+
+/**
+ * catalog.version.updated: the merchant changed their menu.
+ *
+ * - Ask Square for objects changed since the snapshot's last sync (begin_time)
+ *   and patch them into the cached snapshot
+ * - Clear "catalog:<id>" and "categories:<id>" only for the affected locations
+ * - If a changed item is sold at all locations, clear every "catalog:" and
+ *   "categories:" key but keep the patched snapshot
+ * - If there is no cached snapshot or the incremental fetch fails, fall back
+ *   to dropping the snapshot and all catalog and category caches
+ * - Notify catalog streams of the affected locations
+ */
+const handleCatalogVersionUpdated: WebhookHandler = async (req, event) => {
+  const cache = req.app.locals.cache as CacheProvider;
+  const catalogSnapshots = req.app.locals.catalogSnapshots as CatalogSnapshotService;
+
+  let sync: CatalogSyncResult | null = null;
+  try {
+    sync = await catalogSnapshots.syncChanges();
+  } catch (error) {
+    console.warn(
+      `[webhook] Incremental catalog sync failed, falling back to full invalidation: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+  }
+
+  let cachesCleared: string[];
+  if (!sync) {
+    // Nothing to patch: drop the shared snapshot and all derived caches
+    console.info('[webhook] Invalidating all catalog caches...');
+    await catalogSnapshots.invalidate();
+    await cache.clear('catalog:');
+    await cache.clear('categories:');
+    cachesCleared = ['snapshot:catalog', 'catalog:*', 'categories:*'];
+  } else if (sync.locations === 'all') {
+    await cache.clear('catalog:');
+    await cache.clear('categories:');
+    cachesCleared = ['catalog:*', 'categories:*'];
+  } else {
+    cachesCleared = sync.locations.flatMap((locationId) => [
+      CacheKeys.catalog(locationId),
+      CacheKeys.categories(locationId),
+    ]);
+    await Promise.all(cachesCleared.map((key) => cache.delete(key)));
+  }
+  console.info(`[webhook] Cache invalidation complete: ${cachesCleared.join(', ') || 'none'}`);
+  notifyStreams(req, event, 'catalog', sync?.locations ?? 'all');
+
+  return { changed_objects: sync?.changed ?? null, caches_cleared: cachesCleared };
+};
+
+/**
+ * location.created / location.updated: a store was added, renamed,
+ * deactivated or had its hours or currency changed.
+ *
+ * - Drop the locations list so the next read refetches it
+ * - Clear that location's catalog and search index (prices are formatted with
+ *   its locale and currency)
+ * - Notify that location's catalog streams
+ */
+const handleLocationChanged: WebhookHandler = async (req, event) => {
+  const cache = req.app.locals.cache as CacheProvider;
+  const locations = req.app.locals.locations as LocationService;
+  const catalogSearch = req.app.locals.catalogSearch as CatalogSearchService;
+
+  await locations.invalidate();
+  const cachesCleared = [CacheKeys.locations(), CacheKeys.catalog(event.data.id)];
+  await cache.delete(CacheKeys.catalog(event.data.id));
+  catalogSearch.invalidate([event.data.id]);
+  console.info(`[webhook] Location ${event.data.id} changed, cleared ${cachesCleared.join(', ')}`);
+  notifyStreams(req, event, 'location', [event.data.id]);
+
+  return { caches_cleared: cachesCleared };
+};
+
+/**
+ * inventory.count.updated: stock levels changed, e.g. an item sold out.
+ *
+ * - Clear "inventory:<id>" for every location in the counts, so the stock
+ *   overlay is reloaded on the next read. The catalog and snapshot are left
+ *   alone: stock is merged in per request (see InventoryService), and the
+ *   merchant's own sold-out flags in Square are never overwritten by counts
+ * - Notify those locations' catalog streams
+ */
+const handleInventoryCountUpdated: WebhookHandler = async (req, event) => {
+  const inventory = req.app.locals.inventory as InventoryService;
+
+  const counts = (event.data.object as SquareInventoryCountUpdatedObject).inventory_counts ?? [];
+  const locationIds = [...new Set(counts.map((count) => count.location_id))];
+
+  await inventory.invalidate(locationIds);
+  const cachesCleared = locationIds.map((locationId) => CacheKeys.inventory(locationId));
+  console.info(
+    `[webhook] Received ${counts.length} inventory counts, ` +
+      `cleared ${cachesCleared.join(', ') || 'none'}`,
+  );
+  notifyStreams(req, event, 'inventory', locationIds);
+
+  return { caches_cleared: cachesCleared };
+};
+
+const handlers: Record<string, WebhookHandler> = {
+  'catalog.version.updated': handleCatalogVersionUpdated,
+  'location.created': handleLocationChanged,
+  'location.updated': handleLocationChanged,
+  'inventory.count.updated': handleInventoryCountUpdated,
+};
+
 /**
  * POST /webhooks/square/catalog-updated
  *
- * Handles Square webhook notifications for catalog updates.
+ * Handles Square webhook notifications that affect cached menu data.
+ * Square delivers every subscribed event type to this one URL, so the
+ * handler is picked by event type:
+ * - catalog.version.updated → patch the snapshot, clear affected locations
+ * - location.created / location.updated → refetch locations
+ * - inventory.count.updated → reload stock levels
+ * Other event types are acknowledged and ignored.
  *
- * When a merchant updates their menu in Square, Square sends a webhook
- * with type "catalog.version.updated". We invalidate all catalog-related
- * caches to ensure fresh data on the next request.
+ * Idempotency:
+ * Square retries deliveries and may send the same event_id more than once.
+ * Each event_id is claimed in the cache for WEBHOOK_EVENT_RETENTION_SECONDS;
+ * repeats are acknowledged with `duplicate: true` and not processed again.
+ * Catalog events created before the newest applied catalog version are
+ * acknowledged with `stale: true` and skipped. If processing fails the claim
+ * is released, so Square's retry is processed normally.
  *
  * Square Webhook Event Structure:
  * {
@@ -26,48 +178,77 @@ const router = Router();
  *   }
  * }
  *
- * Cache Invalidation Strategy:
- * - Clear all keys starting with "catalog:" (all location-specific catalogs)
- * - Clear all keys starting with "categories:" (all location-specific categories)
- * - Locations cache is NOT cleared (location data changes less frequently)
- *
- * Security Note:
- * In production, you should verify the webhook signature using
- * SQUARE_WEBHOOK_SIGNATURE_KEY to ensure the request is from Square.
+ * Security:
+ * The x-square-hmacsha256-signature header is verified against the raw
+ * body and notification URL using SQUARE_WEBHOOK_SIGNATURE_KEY before
+ * any cache is touched. Bad or missing signatures get a 401.
  * See: https://developer.squareup.com/docs/webhooks/step3validate
  */
-router.post('/catalog-updated', async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const event = req.body as SquareWebhookEvent;
+router.post(
+  '/catalog-updated',
+  verifySquareSignature,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const event = req.body as SquareWebhookEvent;
+
+      console.info(`[webhook] Received Square webhook: ${event.type} (event_id: ${event.event_id})`);
+
+      const handler = handlers[event.type];
+      if (handler) {
+        const webhookEvents = req.app.locals.webhookEvents as WebhookEventLog;
+
+        const claim = await webhookEvents.claim(event.event_id);
+        if (!claim) {
+          console.info(`[webhook] Duplicate delivery of ${event.event_id}, skipping`);
+          return res.status(200).json({
+            message: 'Duplicate webhook ignored',
+            event_id: event.event_id,
+            duplicate: true,
+          });
+        }
 
-    console.info(`[webhook] Received Square webhook: ${event.type} (event_id: ${event.event_id})`);
+        const isCatalogEvent = event.type === 'catalog.version.updated';
+        if (isCatalogEvent && (await webhookEvents.isSupersededCatalogEvent(event.created_at))) {
+          console.info(
+            `[webhook] ${event.event_id} predates the applied catalog version, skipping`,
+          );
+          return res.status(200).json({
+            message: 'Stale webhook ignored',
+            event_id: event.event_id,
+            stale: true,
+          });
+        }
 
-    // Handle catalog version updates
-    if (event.type === 'catalog.version.updated') {
-      const cache = req.app.locals.cache as CacheProvider;
+        let result: Record<string, unknown>;
+        try {
+          result = await handler(req, event);
+        } catch (error) {
+          await webhookEvents.release(event.event_id, claim);
+          throw error;
+        }
 
-      // Invalidate all catalog and category caches
-      console.info('[webhook] Invalidating catalog caches...');
-      await cache.clear('catalog:');
-      await cache.clear('categories:');
-      console.info('[webhook] Cache invalidation complete');
+        if (isCatalogEvent) {
+          const { catalog_version } = event.data.object as SquareCatalogVersionUpdatedObject;
+          await webhookEvents.recordCatalogVersion(catalog_version?.updated_at ?? event.created_at);
+        }
 
-      return res.status(200).json({
-        message: 'Webhook processed successfully',
+        return res.status(200).json({
+          message: 'Webhook processed successfully',
+          event_id: event.event_id,
+          ...result,
+        });
+      }
+
+      // For other event types, just acknowledge receipt
+      console.info(`[webhook] Event type ${event.type} received but not processed`);
+      res.status(200).json({
+        message: 'Webhook received',
         event_id: event.event_id,
-        caches_cleared: ['catalog:*', 'categories:*'],
       });
+    } catch (error) {
+      next(error);
     }
-
-    // For other event types, just acknowledge receipt
-    console.info(`[webhook] Event type ${event.type} received but not processed`);
-    res.status(200).json({
-      message: 'Webhook received',
-      event_id: event.event_id,
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+  },
+);
 
 export default router;
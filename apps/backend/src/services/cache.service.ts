@@ -1,5 +1,7 @@
+import { randomUUID } from 'crypto';
 import NodeCache from 'node-cache';
 import Redis from 'ioredis';
+import { AppError } from '../utils/app-error.js';
 
 // ─── Cache Provider Interface ────────────────────────────────
 
@@ -11,6 +13,9 @@ export interface CacheProvider {
   /** Store a value with a TTL in seconds. */
   set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
 
+  /** Store a value only if the key is missing. Returns whether it was stored. */
+  setIfAbsent<T>(key: string, value: T, ttlSeconds: number): Promise<boolean>;
+
   /** Remove a single key. */
   delete(key: string): Promise<boolean>;
 
@@ -19,6 +24,15 @@ export interface CacheProvider {
 
   /** Remove all keys matching an optional prefix, or everything if omitted. */
   clear(prefix?: string): Promise<void>;
+
+  /**
+   * Take a short-lived exclusive lock.
+   * Returns a token to release it with, or null if someone else holds it.
+   */
+  acquireLock(key: string, ttlMs: number): Promise<string | null>;
+
+  /** Release a lock, but only if it is still held with this token. */
+  releaseLock(key: string, token: string): Promise<void>;
 }
 
 // ─── Memory Provider ─────────────────────────────────────────
@@ -44,6 +58,12 @@ export class MemoryCacheProvider implements CacheProvider {
     this.cache.set(key, value, ttlSeconds);
   }
 
+  async setIfAbsent<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    if (this.cache.has(key)) return false;
+    this.cache.set(key, value, ttlSeconds);
+    return true;
+  }
+
   async delete(key: string): Promise<boolean> {
     return this.cache.del(key) > 0;
   }
@@ -62,13 +82,27 @@ export class MemoryCacheProvider implements CacheProvider {
       this.cache.del(keys);
     }
   }
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    if (this.cache.has(key)) return null;
+    const token = randomUUID();
+    this.cache.set(key, token, Math.ceil(ttlMs / 1000));
+    return token;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    if (this.cache.get(key) === token) {
+      this.cache.del(key);
+    }
+  }
 }
 
 // ─── Redis Provider ──────────────────────────────────────────
 
 /** Redis-backed cache for multi-instance / production deployments. */
-export class RedisCacheProvider implements CacheProvider {
+export class RedisCacheProvider implements CacheProvider, CacheInvalidationBus {
   private client: Redis;
+  /** Pub/sub needs its own connection; created on first subscribe. */
+  private subscriber: Redis | null = null;
 
   constructor(redisUrl: string) {
     this.client = new Redis(redisUrl, {
@@ -96,6 +130,11 @@ export class RedisCacheProvider implements CacheProvider {
     await this.client.setex(key, ttlSeconds, JSON.stringify(value));
   }
 
+  async setIfAbsent<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    const result = await this.client.set(key, JSON.stringify(value), 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+
   async delete(key: string): Promise<boolean> {
     const count = await this.client.del(key);
     return count > 0;
@@ -121,6 +160,555 @@ export class RedisCacheProvider implements CacheProvider {
       }
     } while (cursor !== '0');
   }
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    // SET NX PX: only one instance gets the lock, and it frees itself if the holder dies
+    const result = await this.client.set(key, token, 'PX', ttlMs, 'NX');
+    return result === 'OK' ? token : null;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    // Compare-and-delete so an expired lock re-taken by another instance isn't released
+    await this.client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+  }
+
+  async publish(message: string, channel = INVALIDATION_CHANNEL): Promise<void> {
+    await this.client.publish(channel, message);
+  }
+
+  subscribe(handler: (message: string) => void, channel = INVALIDATION_CHANNEL): void {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      this.subscriber.on('error', (err) => {
+        console.error('[cache:redis] Subscriber error:', err.message);
+      });
+    }
+    this.subscriber.subscribe(channel).catch((err) => {
+      console.error(`[cache:redis] Failed to subscribe to ${channel}:`, err.message);
+    });
+    this.subscriber.on('message', (from, message) => {
+      if (from === channel) handler(message);
+    });
+  }
+}
+
+/** Pub/sub channel tiered caches use to drop L1 entries on every instance. */
+const INVALIDATION_CHANNEL = 'cache:invalidate';
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+// ─── Tiered Provider ─────────────────────────────────────────
+
+/**
+ * Broadcasts messages to every instance (Redis pub/sub in production).
+ * `channel` defaults to the cache invalidation channel; other cross-instance
+ * messages, such as catalog change events, use their own.
+ */
+export interface CacheInvalidationBus {
+  publish(message: string, channel?: string): Promise<void>;
+  subscribe(handler: (message: string) => void, channel?: string): void;
+}
+
+type InvalidationMessage = { op: 'delete'; key: string } | { op: 'clear'; prefix?: string };
+
+/** Bounded in-process LRU with per-entry expiry. Map iteration order doubles as recency order. */
+class LruCache {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (Date.now() >= entry.expiresAt) return undefined;
+    this.entries.set(key, entry); // mark as most recently used
+    return entry.value as T;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(prefix?: string): void {
+    if (!prefix) {
+      this.entries.clear();
+      return;
+    }
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
+
+export interface TieredCacheOptions {
+  /** Maximum number of keys kept in the in-process L1. */
+  l1MaxEntries: number;
+  /** Upper bound on how long an L1 entry lives, capping cross-instance staleness after a set. */
+  l1TtlSeconds: number;
+}
+
+/**
+ * Small in-process LRU (L1) in front of a shared cache (L2, normally Redis).
+ *
+ * Reads hit L1 first, saving the Redis round trip and JSON.parse for hot
+ * keys such as large catalog blobs; L1 misses fall through to L2 and are
+ * kept in L1 for at most `l1TtlSeconds`. `delete()` and `clear()` are
+ * broadcast over the invalidation bus so every instance drops its L1 copy,
+ * e.g. after a webhook.
+ *
+ * L1 hands out shared references: cached values must be treated as immutable.
+ */
+export class TieredCacheProvider implements CacheProvider {
+  private readonly l1: LruCache;
+
+  constructor(
+    private readonly l2: CacheProvider,
+    readonly bus: CacheInvalidationBus,
+    private readonly options: TieredCacheOptions,
+  ) {
+    this.l1 = new LruCache(options.l1MaxEntries);
+    bus.subscribe((message) => this.applyInvalidation(message));
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const local = this.l1.get<T>(key);
+    if (local !== undefined) return local;
+
+    const value = await this.l2.get<T>(key);
+    if (value !== null) {
+      this.l1.set(key, value, this.l1TtlMs());
+    }
+    return value;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    await this.l2.set(key, value, ttlSeconds);
+    this.l1.set(key, value, this.l1TtlMs(ttlSeconds));
+  }
+
+  async setIfAbsent<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    const stored = await this.l2.setIfAbsent(key, value, ttlSeconds);
+    if (stored) this.l1.set(key, value, this.l1TtlMs(ttlSeconds));
+    return stored;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const deleted = await this.l2.delete(key);
+    await this.broadcast({ op: 'delete', key });
+    return deleted;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.l1.get(key) !== undefined || this.l2.has(key);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    await this.l2.clear(prefix);
+    await this.broadcast({ op: 'clear', prefix });
+  }
+
+  // Locks must be shared across instances, so they live in L2 only
+  acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    return this.l2.acquireLock(key, ttlMs);
+  }
+
+  releaseLock(key: string, token: string): Promise<void> {
+    return this.l2.releaseLock(key, token);
+  }
+
+  private l1TtlMs(ttlSeconds = Infinity): number {
+    return Math.min(ttlSeconds, this.options.l1TtlSeconds) * 1000;
+  }
+
+  /** Applies locally right away, then tells the other instances. */
+  private async broadcast(message: InvalidationMessage): Promise<void> {
+    this.applyInvalidation(JSON.stringify(message));
+    try {
+      await this.bus.publish(JSON.stringify(message));
+    } catch (err) {
+      // Other instances fall back to l1TtlSeconds expiry
+      console.error('[cache:tiered] Failed to publish invalidation:', (err as Error).message);
+    }
+  }
+
+  private applyInvalidation(raw: string): void {
+    let message: InvalidationMessage;
+    try {
+      message = JSON.parse(raw) as InvalidationMessage;
+    } catch {
+      console.warn(`[cache:tiered] Ignoring malformed invalidation message: ${raw}`);
+      return;
+    }
+
+    if (message.op === 'delete') {
+      this.l1.delete(message.key);
+    } else {
+      this.l1.clear(message.prefix);
+    }
+  }
+}
+
+// ─── Stale-While-Revalidate ──────────────────────────────────
+
+/**
+ * Where a value came from: a fresh entry, a stale entry, a load on miss, or
+ * the last-known-good copy because the load on miss failed upstream.
+ */
+export type CacheFreshness = 'fresh' | 'stale' | 'miss' | 'degraded';
+
+export interface SwrResult<T> {
+  value: T;
+  freshness: CacheFreshness;
+  /** Epoch ms when the value was loaded; absent for last-known-good copies. */
+  storedAt?: number;
+}
+
+/** Stored envelope. The provider TTL is the hard expiry; `stale_at` is the soft one. */
+interface SwrEntry<T> {
+  value: T;
+  /** Epoch ms after which the value is served stale and refreshed. */
+  stale_at: number;
+  /** Epoch ms when the value was stored (missing on entries written before it was tracked). */
+  stored_at?: number;
+}
+
+/** Longest a load may run by default; matches the default Square pagination budget. */
+const DEFAULT_LOAD_TIMEOUT_MS = 60_000;
+
+/** Lock time on top of the load timeout, for writing the result and releasing the lock. */
+const LOAD_LOCK_MARGIN_MS = 10_000;
+
+/** How often an instance waiting on another instance's load first re-checks the lock. */
+const LOAD_LOCK_POLL_MS = 50;
+
+/** Longest gap between lock checks; the wait doubles up to this. */
+const LOAD_LOCK_MAX_POLL_MS = 1_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Stale-while-revalidate on top of any CacheProvider.
+ *
+ * Entries carry a soft and a hard expiry:
+ * - before the soft expiry the value is served as fresh
+ * - between soft and hard expiry it is served immediately as stale and
+ *   one background refresh is started
+ * - after the hard expiry the provider has dropped it and callers wait for a load
+ *
+ * Loads are single-flight per key: concurrent misses in this process share
+ * one in-flight promise, and across instances a provider lock (`lock:<key>`)
+ * lets one instance load while the others wait for its result. The lock is
+ * held for the longest a load may take (`loadTimeoutMs`, e.g. the Square
+ * pagination budget) plus a margin, so it cannot expire under a slow load.
+ *
+ * With a LastKnownGoodCache, every loaded value is also kept as a long-lived
+ * last-known-good copy. A miss whose load fails upstream (Square down or its
+ * circuit open) serves that copy as 'degraded' instead of failing. The copy
+ * is never written back to `<key>`, so the next request tries Square again.
+ */
+export class SwrCache {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly cache: CacheProvider,
+    private readonly softTtlSeconds: number,
+    private readonly hardTtlSeconds: number,
+    private readonly lastKnownGood?: LastKnownGoodCache,
+    private readonly loadTimeoutMs = DEFAULT_LOAD_TIMEOUT_MS,
+  ) {}
+
+  /**
+   * Returns the cached value for a key, loading and caching it on a miss.
+   *
+   * @param key - Cache key
+   * @param load - Produces a fresh value (e.g. from Square)
+   * @returns The value and whether it was fresh, stale or just loaded
+   */
+  async get<T>(key: string, load: () => Promise<T>): Promise<SwrResult<T>> {
+    const entry = await this.cache.get<SwrEntry<T>>(key);
+
+    if (entry) {
+      const storedAt = entry.stored_at ?? entry.stale_at - this.softTtlSeconds * 1000;
+      if (Date.now() < entry.stale_at) {
+        console.info(`[cache] HIT: ${key}`);
+        return { value: entry.value, freshness: 'fresh', storedAt };
+      }
+
+      console.info(`[cache] STALE: ${key}`);
+      this.refreshInBackground(key, load);
+      return { value: entry.value, freshness: 'stale', storedAt };
+    }
+
+    console.info(`[cache] MISS: ${key}`);
+    try {
+      const value = await this.loadOnce(key, load);
+      return { value, freshness: 'miss', storedAt: Date.now() };
+    } catch (error) {
+      const fallback = (await this.lastKnownGood?.fallback<T>(key, error)) ?? null;
+      if (fallback === null) throw error;
+      return { value: fallback, freshness: 'degraded' };
+    }
+  }
+
+  /**
+   * Like get(), but never serves a stale entry: a stale or missing value is
+   * loaded (joining a background refresh already in flight) and waited for.
+   * For loaders whose result is cached again under its own key, so a value
+   * derived from stale data isn't stored as fresh for another full TTL.
+   * Load errors propagate; there is no last-known-good fallback.
+   */
+  async getFresh<T>(key: string, load: () => Promise<T>): Promise<SwrResult<T>> {
+    const entry = await this.cache.get<SwrEntry<T>>(key);
+
+    if (entry && Date.now() < entry.stale_at) {
+      console.info(`[cache] HIT: ${key}`);
+      const storedAt = entry.stored_at ?? entry.stale_at - this.softTtlSeconds * 1000;
+      return { value: entry.value, freshness: 'fresh', storedAt };
+    }
+
+    console.info(`[cache] ${entry ? 'STALE' : 'MISS'}: ${key}, waiting for a fresh value`);
+    const value = await this.loadOnce(key, load);
+    return { value, freshness: 'miss', storedAt: Date.now() };
+  }
+
+  /** Stores a value, fresh for the soft TTL and kept until the hard TTL. */
+  async set<T>(key: string, value: T): Promise<void> {
+    const now = Date.now();
+    const entry: SwrEntry<T> = {
+      value,
+      stale_at: now + this.softTtlSeconds * 1000,
+      stored_at: now,
+    };
+    await this.cache.set(key, entry, this.hardTtlSeconds);
+    await this.lastKnownGood?.save(key, value);
+  }
+
+  /**
+   * Read-modify-write of a cached value under the same `lock:<key>` lock
+   * loads take. A load (here or on another instance) can't land between the
+   * read and the write and be overwritten with a patch of older data; the
+   * update waits for the lock instead. Nothing is written when no value is cached.
+   *
+   * @param key - Cache key
+   * @param update - Gets the current value; returns the value to store and a result for the caller
+   * @returns The update's result, or null when no value was cached
+   */
+  async update<T, R>(
+    key: string,
+    update: (current: T) => Promise<{ value: T; result: R }>,
+  ): Promise<R | null> {
+    const lockKey = buildCacheKey('lock', key);
+    const token = await this.waitForLock(lockKey);
+
+    try {
+      const entry = await this.cache.get<SwrEntry<T>>(key);
+      if (!entry) return null;
+
+      const { value, result } = await update(entry.value);
+      await this.set(key, value);
+      return result;
+    } finally {
+      await this.cache.releaseLock(lockKey, token);
+    }
+  }
+
+  /** Starts a background refresh unless one is already running; failures keep the stale value. */
+  private refreshInBackground<T>(key: string, load: () => Promise<T>): void {
+    if (this.inFlight.has(key)) return;
+
+    this.loadOnce(key, load)
+      .then(() => console.info(`[cache] Refreshed ${key} in background`))
+      .catch((err: Error) => {
+        console.warn(`[cache] Background refresh failed for ${key}: ${err.message}`);
+      });
+  }
+
+  /** Joins the in-flight load for a key, or starts one. */
+  private loadOnce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key) as Promise<T> | undefined;
+    if (existing) {
+      console.info(`[cache] COALESCED: ${key}`);
+      return existing;
+    }
+
+    const promise = this.loadWithLock(key, load).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /** How long the lock for a key is held: the longest a load may take, plus a margin. */
+  private get lockTtlMs(): number {
+    return this.loadTimeoutMs + LOAD_LOCK_MARGIN_MS;
+  }
+
+  /** Takes the lock, waiting while a load or update holds it; it frees itself within lockTtlMs. */
+  private async waitForLock(lockKey: string): Promise<string> {
+    const deadline = Date.now() + this.lockTtlMs;
+    for (;;) {
+      const token = await this.cache.acquireLock(lockKey, this.lockTtlMs);
+      if (token) return token;
+      if (Date.now() >= deadline) throw new Error(`Timed out waiting for ${lockKey}`);
+      await sleep(LOAD_LOCK_POLL_MS);
+    }
+  }
+
+  /**
+   * Loads under the cross-instance lock. If another instance holds it, waits
+   * for the lock to go (checking only the lock key, with backoff, so the
+   * entry isn't downloaded on every check), then reads the entry once. A
+   * fresh entry is returned (a stale one is what was being refreshed); if
+   * there is none, loads anyway rather than failing the request.
+   */
+  private async loadWithLock<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const lockKey = buildCacheKey('lock', key);
+    const token = await this.cache.acquireLock(lockKey, this.lockTtlMs);
+
+    if (!token) {
+      console.info(`[cache] Waiting for another instance to load ${key}`);
+      const deadline = Date.now() + this.lockTtlMs;
+      let pollMs = LOAD_LOCK_POLL_MS;
+      while (Date.now() < deadline) {
+        await sleep(Math.min(pollMs, deadline - Date.now()));
+        if (!(await this.cache.has(lockKey))) break;
+        pollMs = Math.min(pollMs * 2, LOAD_LOCK_MAX_POLL_MS);
+      }
+
+      const entry = await this.cache.get<SwrEntry<T>>(key);
+      if (entry && Date.now() < entry.stale_at) return entry.value;
+    }
+
+    try {
+      const value = await load();
+      await this.set(key, value);
+      return value;
+    } finally {
+      if (token) await this.cache.releaseLock(lockKey, token);
+    }
+  }
+}
+
+// ─── Last-Known-Good ─────────────────────────────────────────
+
+/** A last-known-good copy as written to durable storage. */
+export interface StoredSnapshot<T = unknown> {
+  key: string;
+  /** ISO timestamp of when the copy was saved. */
+  saved_at: string;
+  value: T;
+}
+
+/**
+ * Durable storage for last-known-good copies, so they survive a restart
+ * even with the in-memory cache provider.
+ */
+export interface SnapshotStore {
+  save(key: string, value: unknown): Promise<void>;
+  /** All stored copies, for restoring into the cache at boot. */
+  loadAll(): Promise<StoredSnapshot[]>;
+  /** Key and save time of every stored copy, without reading the values. */
+  list(): Promise<Omit<StoredSnapshot, 'value'>[]>;
+}
+
+/** Whether a value is flagged `partial: true` (a catalog cut short by the pagination budget). */
+function isPartial(value: unknown): boolean {
+  return (
+    typeof value === 'object' && value !== null && 'partial' in value && value.partial === true
+  );
+}
+
+/** Whether an error means the upstream (Square) failed or is unreachable, not a bad request. */
+function isUpstreamFailure(error: unknown): boolean {
+  return error instanceof AppError && error.statusCode >= 502;
+}
+
+/**
+ * Long-lived copies of the last successfully loaded value per key, kept
+ * under `lkg:<key>` and served when Square is unavailable.
+ *
+ * With a SnapshotStore every copy is also written to disk, and restore()
+ * puts them back into the cache at boot so the menu works offline after
+ * a restart.
+ */
+export class LastKnownGoodCache {
+  constructor(
+    private readonly cache: CacheProvider,
+    private readonly ttlSeconds: number,
+    private readonly store?: SnapshotStore,
+  ) {}
+
+  /**
+   * Keeps a copy of a freshly loaded value. A partial value never replaces a
+   * complete copy, so one slow Square outage can't overwrite the menu kept
+   * for the next one. A failed disk write only logs.
+   */
+  async save<T>(key: string, value: T): Promise<void> {
+    const lkgKey = CacheKeys.lastKnownGood(key);
+    if (isPartial(value)) {
+      const kept = await this.cache.get<unknown>(lkgKey);
+      if (kept !== null && !isPartial(kept)) {
+        console.warn(`[snapshot] Keeping the complete last-known-good copy of ${key}`);
+        return;
+      }
+    }
+
+    await this.cache.set(lkgKey, value, this.ttlSeconds);
+
+    try {
+      await this.store?.save(key, value);
+    } catch (error) {
+      console.warn(
+        `[snapshot] Failed to persist ${key}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /** Returns the copy of a key if its load failed upstream and one is kept. */
+  async fallback<T>(key: string, error: unknown): Promise<T | null> {
+    if (!isUpstreamFailure(error)) return null;
+
+    const value = await this.cache.get<T>(CacheKeys.lastKnownGood(key));
+    if (value !== null) {
+      console.warn(`[cache] DEGRADED: ${key} (serving last-known-good copy)`);
+    }
+    return value;
+  }
+
+  /**
+   * Loads persisted copies into the cache, each for what is left of its TTL.
+   * A key already in the cache is left alone: with a shared cache (Redis),
+   * another instance may have stored a newer copy than this one's disk.
+   * @returns Number of copies restored
+   */
+  async restore(now: number = Date.now()): Promise<number> {
+    if (!this.store) return 0;
+
+    let restored = 0;
+    for (const { key, saved_at, value } of await this.store.loadAll()) {
+      const remainingSeconds = this.ttlSeconds - Math.floor((now - Date.parse(saved_at)) / 1000);
+      if (remainingSeconds <= 0) continue;
+
+      if (await this.cache.setIfAbsent(CacheKeys.lastKnownGood(key), value, remainingSeconds)) {
+        restored++;
+      }
+    }
+    console.info(`[snapshot] Restored ${restored} last-known-good copies from disk`);
+    return restored;
+  }
 }
 
 // ─── Cache Key Helpers ───────────────────────────────────────
@@ -135,21 +723,40 @@ export const CacheKeys = {
   locations: () => buildCacheKey('locations'),
   catalog: (locationId: string) => buildCacheKey('catalog', locationId),
   categories: (locationId: string) => buildCacheKey('categories', locationId),
+  inventory: (locationId: string) => buildCacheKey('inventory', locationId),
+  catalogSnapshot: () => buildCacheKey('snapshot', 'catalog'),
+  catalogHistory: (locationId: string) => buildCacheKey('history', 'catalog', locationId),
+  lastKnownGood: (key: string) => buildCacheKey('lkg', key),
+  webhookEvent: (eventId: string) => buildCacheKey('webhook', 'event', eventId),
+  appliedCatalogVersion: () => buildCacheKey('webhook', 'catalog-version'),
 } as const;
 
 // ─── Factory ─────────────────────────────────────────────────
 
 /** Create the appropriate cache provider based on configuration. */
 export function createCacheProvider(
-  provider: 'memory' | 'redis',
+  provider: 'memory' | 'redis' | 'tiered',
   ttlSeconds: number,
   redisUrl?: string,
+  tieredOptions: TieredCacheOptions = { l1MaxEntries: 100, l1TtlSeconds: 10 },
 ): CacheProvider {
-  if (provider === 'redis') {
+  if (provider === 'redis' || provider === 'tiered') {
     if (!redisUrl) {
-      throw new Error('REDIS_URL is required when CACHE_PROVIDER=redis');
+      throw new Error(`REDIS_URL is required when CACHE_PROVIDER=${provider}`);
     }
-    return new RedisCacheProvider(redisUrl);
+    const redis = new RedisCacheProvider(redisUrl);
+    return provider === 'tiered' ? new TieredCacheProvider(redis, redis, tieredOptions) : redis;
   }
   return new MemoryCacheProvider(ttlSeconds);
 }
+
+/**
+ * The provider's cross-instance message bus: Redis pub/sub, used directly or
+ * under the tiered cache. Null for the in-memory provider, which serves a
+ * single instance.
+ */
+export function cacheMessageBus(cache: CacheProvider): CacheInvalidationBus | null {
+  if (cache instanceof RedisCacheProvider) return cache;
+  if (cache instanceof TieredCacheProvider) return cache.bus;
+  return null;
+}
@@ -0,0 +1,100 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { CatalogChangeType, CatalogChangedEvent } from '@per-diem/shared-types';
+import type { CacheInvalidationBus } from './cache.service.js';
+import type { AffectedLocations } from './catalog-snapshot.service.js';
+
+const CHANGE_EVENT = 'change';
+
+/** Pub/sub channel changes are relayed to the other instances on. */
+const CATALOG_CHANGES_CHANNEL = 'catalog:changes';
+
+/** A change published by the webhook route, before it is fanned out per location. */
+export interface CatalogChange {
+  type: CatalogChangeType;
+  locations: AffectedLocations;
+  event_id: string;
+}
+
+/** A change as relayed between instances. */
+interface RelayedChange {
+  /** Instance that published the change, so it can skip its own message. */
+  origin: string;
+  change: CatalogChange;
+  changed_at: string;
+}
+
+/**
+ * Fans out menu changes to open catalog streams (GET /api/catalog/stream).
+ *
+ * The webhook route publishes once per processed event; each subscriber
+ * only hears about its own location. Subscribers on this instance are
+ * notified directly. With a relay (the Redis pub/sub the tiered cache uses
+ * for L1 invalidation), the change is also sent on `catalog:changes` so
+ * streams held by every other instance are notified too.
+ */
+export class CatalogEventBus {
+  private readonly emitter = new EventEmitter();
+  private readonly instanceId = randomUUID();
+
+  constructor(private readonly relay?: CacheInvalidationBus) {
+    // One listener per open stream; there is no meaningful upper bound
+    this.emitter.setMaxListeners(0);
+    relay?.subscribe((message) => this.receive(message), CATALOG_CHANGES_CHANNEL);
+  }
+
+  /** Notifies subscribers of every affected location, on every instance. */
+  publish(change: CatalogChange): void {
+    if (change.locations !== 'all' && change.locations.length === 0) return;
+    const changedAt = new Date().toISOString();
+    this.emitter.emit(CHANGE_EVENT, change, changedAt);
+
+    if (!this.relay) return;
+    const message: RelayedChange = { origin: this.instanceId, change, changed_at: changedAt };
+    this.relay.publish(JSON.stringify(message), CATALOG_CHANGES_CHANNEL).catch((err: Error) => {
+      // Streams on other instances miss this change; their clients refetch on staleTime
+      console.error('[stream] Failed to relay catalog change:', err.message);
+    });
+  }
+
+  /**
+   * Calls `listener` for every change affecting `locationId`.
+   * @returns A function that removes the subscription
+   */
+  subscribe(locationId: string, listener: (event: CatalogChangedEvent) => void): () => void {
+    const onChange = (change: CatalogChange, changedAt: string) => {
+      if (change.locations !== 'all' && !change.locations.includes(locationId)) return;
+      listener({
+        type: change.type,
+        location_id: locationId,
+        event_id: change.event_id,
+        changed_at: changedAt,
+      });
+    };
+
+    this.emitter.on(CHANGE_EVENT, onChange);
+    return () => {
+      this.emitter.off(CHANGE_EVENT, onChange);
+    };
+  }
+
+  /** Delivers a change relayed by another instance to this instance's subscribers. */
+  private receive(raw: string): void {
+    let message: RelayedChange;
+    try {
+      message = JSON.parse(raw) as RelayedChange;
+    } catch {
+      console.warn(`[stream] Ignoring malformed catalog change: ${raw}`);
+      return;
+    }
+
+    // Already delivered locally when it was published
+    if (message.origin === this.instanceId) return;
+    this.emitter.emit(CHANGE_EVENT, message.change, message.changed_at);
+  }
+
+  /** Number of open subscriptions on this instance, across all locations. */
+  get subscriberCount(): number {
+    return this.emitter.listenerCount(CHANGE_EVENT);
+  }
+}
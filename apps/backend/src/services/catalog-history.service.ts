@@ -0,0 +1,180 @@
+import { createHash } from 'crypto';
+import type {
+  CatalogChangesResponse,
+  CatalogDiff,
+  CatalogResponse,
+  Category,
+  CategoryGroup,
+  MenuItem,
+} from '@per-diem/shared-types';
+import type { CacheProvider } from './cache.service.js';
+import { CacheKeys } from './cache.service.js';
+
+/** Content hashes of one location's catalog as it was at one version. */
+export interface CatalogFingerprint {
+  version: number;
+  items: Record<string, string>;
+  categories: Record<string, string>;
+}
+
+// ─── Pure helpers ────────────────────────────────────────────
+
+/** Short, stable hash of a JSON-serializable value. */
+function contentHash(value: unknown): string {
+  return createHash('sha1').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+/** Categories of a grouped catalog, in the shape of the categories endpoint. */
+function catalogCategories(groups: CategoryGroup[]): Category[] {
+  return groups.map((group) => ({
+    id: group.categoryId,
+    name: group.category,
+    item_count: group.items.length,
+  }));
+}
+
+/** Hashes every item and category of a location's catalog. */
+export function fingerprintCatalog(version: number, groups: CategoryGroup[]): CatalogFingerprint {
+  const fingerprint: CatalogFingerprint = { version, items: {}, categories: {} };
+
+  for (const group of groups) {
+    for (const item of group.items) {
+      fingerprint.items[item.id] = contentHash(item);
+    }
+  }
+  for (const category of catalogCategories(groups)) {
+    fingerprint.categories[category.id] = contentHash(category);
+  }
+  return fingerprint;
+}
+
+/** Sorts current entries into added/updated against earlier hashes, and finds removed IDs. */
+function diffEntries<T extends { id: string }>(
+  before: Record<string, string>,
+  current: T[],
+): CatalogDiff<T> {
+  const diff: CatalogDiff<T> = { added: [], updated: [], removed: [] };
+  const seen = new Set<string>();
+
+  for (const entry of current) {
+    seen.add(entry.id);
+    const previous = before[entry.id];
+    if (previous === undefined) diff.added.push(entry);
+    else if (previous !== contentHash(entry)) diff.updated.push(entry);
+  }
+  diff.removed = Object.keys(before).filter((id) => !seen.has(id));
+  return diff;
+}
+
+/**
+ * Compares a location's current catalog with an earlier fingerprint of it.
+ *
+ * @param before - Fingerprint of the catalog at the earlier version
+ * @param groups - The location's current catalog
+ * @returns Items and categories added, updated and removed since then
+ */
+export function diffCatalog(
+  before: CatalogFingerprint,
+  groups: CategoryGroup[],
+): { items: CatalogDiff<MenuItem>; categories: CatalogDiff<Category> } {
+  return {
+    items: diffEntries(before.items, groups.flatMap((group) => group.items)),
+    categories: diffEntries(before.categories, catalogCategories(groups)),
+  };
+}
+
+/** Whether two fingerprints describe the same catalog content. */
+function sameContent(a: CatalogFingerprint, b: CatalogFingerprint): boolean {
+  const same = (x: Record<string, string>, y: Record<string, string>) =>
+    Object.keys(x).length === Object.keys(y).length &&
+    Object.entries(x).every(([id, hash]) => y[id] === hash);
+
+  return same(a.items, b.items) && same(a.categories, b.categories);
+}
+
+// ─── Service ─────────────────────────────────────────────────
+
+/**
+ * Keeps fingerprints of the last few versions of each location's catalog,
+ * so partners mirroring the menu can fetch only what changed since the
+ * version they hold (GET /api/catalog/changes).
+ *
+ * Only hashes are kept, not old catalogs: a diff is the current catalog's
+ * entries whose hash differs from the old version's. Fingerprints live in
+ * the cache provider, so every instance sees the same history.
+ */
+export class CatalogHistory {
+  constructor(
+    private readonly cache: CacheProvider,
+    private readonly maxVersions: number,
+    private readonly ttlSeconds: number,
+  ) {}
+
+  /**
+   * Records a location's catalog as built from a snapshot at `squareVersion`.
+   *
+   * Unchanged content keeps the latest recorded version. Changed content
+   * whose Square version did not move (e.g. new location settings, or an
+   * item deleted between two full fetches) is recorded one version higher,
+   * so clients holding the previous version still see the change.
+   *
+   * @returns The version the catalog is recorded under
+   */
+  async record(
+    locationId: string,
+    squareVersion: number,
+    groups: CategoryGroup[],
+  ): Promise<number> {
+    const cacheKey = CacheKeys.catalogHistory(locationId);
+    const history = (await this.cache.get<CatalogFingerprint[]>(cacheKey)) ?? [];
+    const latest = history.at(-1);
+    const fingerprint = fingerprintCatalog(squareVersion, groups);
+
+    if (latest && sameContent(latest, fingerprint)) return latest.version;
+    if (latest && fingerprint.version <= latest.version) {
+      fingerprint.version = latest.version + 1;
+    }
+
+    const kept = [...history, fingerprint].slice(-this.maxVersions);
+    await this.cache.set(cacheKey, kept, this.ttlSeconds);
+    console.info(`[history] Recorded ${locationId} catalog version ${fingerprint.version}`);
+    return fingerprint.version;
+  }
+
+  /**
+   * Lists what changed in a location's catalog since `sinceVersion`.
+   * Asks for a resync when that version is no longer (or never was) kept.
+   *
+   * @param catalog - The location's current catalog, as served by GET /api/catalog
+   */
+  async changesSince(
+    locationId: string,
+    sinceVersion: number,
+    catalog: CatalogResponse,
+  ): Promise<CatalogChangesResponse> {
+    // Catalogs cached before versions were tracked are recorded on first use
+    const version = catalog.version ?? (await this.record(locationId, 0, catalog.categories));
+    const history = await this.cache.get<CatalogFingerprint[]>(
+      CacheKeys.catalogHistory(locationId),
+    );
+    const before = history?.find((entry) => entry.version === sinceVersion);
+
+    if (!before) {
+      console.info(`[history] ${locationId} version ${sinceVersion} is not kept, resync required`);
+      return {
+        location_id: locationId,
+        since_version: sinceVersion,
+        version,
+        resync_required: true,
+      };
+    }
+
+    return {
+      location_id: locationId,
+      since_version: sinceVersion,
+      version,
+      resync_required: false,
+      ...diffCatalog(before, catalog.categories),
+    };
+  }
+}
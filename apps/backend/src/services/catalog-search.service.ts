@@ -0,0 +1,90 @@
+import type { CatalogSearchResponse } from '@per-diem/shared-types';
+import {
+  type CatalogSnapshotService,
+  snapshotItemsAtLocation,
+} from './catalog-snapshot.service.js';
+import { type LocationService, priceFormatForLocation } from './location.service.js';
+import { groupItemsByCategory } from '../transformers/square-catalog.transformer.js';
+import { AppError } from '../utils/app-error.js';
+import { type SearchIndex, buildSearchIndex, searchIndex } from '../utils/search-index.js';
+
+/** Most per-location indexes kept at once; the least recently searched is evicted first. */
+const MAX_INDEXES = 100;
+
+/**
+ * Full-text search over a location's menu.
+ *
+ * Keeps one in-memory inverted index per location, built from the shared
+ * catalog snapshot. Indexes are only built for known, active locations, at
+ * most `maxIndexes` are kept, and all of them are dropped as soon as a newer
+ * snapshot is fetched (after a webhook invalidation or sync), so none outlives
+ * the catalog it was built from. A location's index is also dropped when the
+ * location itself changes, since prices are formatted with its locale and currency.
+ * Indexes hold Maps and live only in process memory, not in the cache provider.
+ */
+export class CatalogSearchService {
+  /** Indexes by location ID, least recently used first. */
+  private readonly indexes = new Map<string, SearchIndex>();
+  /** `updated_at` of the snapshot every index in `indexes` was built from. */
+  private indexedSnapshot: string | null = null;
+
+  constructor(
+    private readonly catalogSnapshots: CatalogSnapshotService,
+    private readonly locations: LocationService,
+    private readonly maxIndexes = MAX_INDEXES,
+  ) {}
+
+  /** Searches a location's menu, best match first. */
+  async search(locationId: string, query: string, limit: number): Promise<CatalogSearchResponse> {
+    const index = await this.getIndex(locationId);
+    return { query, results: searchIndex(index, query, limit) };
+  }
+
+  /** Drops the locations' indexes so the next search rebuilds them. */
+  invalidate(locationIds: string[]): void {
+    for (const locationId of locationIds) this.indexes.delete(locationId);
+  }
+
+  /** Returns the location's index, building it if the snapshot has changed since. */
+  private async getIndex(locationId: string): Promise<SearchIndex> {
+    const snapshot = await this.catalogSnapshots.getSnapshot();
+
+    if (snapshot.updated_at !== this.indexedSnapshot) {
+      this.indexes.clear();
+      this.indexedSnapshot = snapshot.updated_at;
+    }
+
+    const existing = this.indexes.get(locationId);
+    if (existing) {
+      this.indexes.delete(locationId);
+      this.indexes.set(locationId, existing); // mark as most recently used
+      return existing;
+    }
+
+    const location = await this.locations.getLocation(locationId);
+    if (!location) {
+      throw AppError.notFound(`Location ${locationId} not found`);
+    }
+
+    const items = groupItemsByCategory(
+      snapshotItemsAtLocation(snapshot, locationId),
+      snapshot,
+      locationId,
+      priceFormatForLocation(location),
+    ).flatMap((group) => group.items);
+
+    const index = buildSearchIndex(items);
+    // Skip caching if a newer snapshot replaced the indexes while the location was looked up
+    if (this.indexedSnapshot === snapshot.updated_at) {
+      this.indexes.set(locationId, index);
+      while (this.indexes.size > this.maxIndexes) {
+        const oldest = this.indexes.keys().next().value as string;
+        this.indexes.delete(oldest);
+      }
+    }
+    console.info(
+      `[search] Built index for ${locationId}: ${items.length} items, ${index.terms.length} terms`,
+    );
+    return index;
+  }
+}
@@ -0,0 +1,546 @@
+import type { AxiosInstance } from 'axios';
+import type {
+  SquareSearchCatalogResponse,
+  SquareCatalogObject,
+  SquareCatalogItem,
+  SquareCatalogCategory,
+  SquareCatalogImage,
+  SquareCatalogVariation,
+  SquareCatalogModifierList,
+  SquareCatalogItemOption,
+} from '@per-diem/shared-types';
+import type { CacheProvider } from './cache.service.js';
+import { CacheKeys, SwrCache } from './cache.service.js';
+import {
+  type PaginationOptions,
+  DEFAULT_PAGINATION_OPTIONS,
+  aggregateSquarePages,
+} from '../utils/pagination.js';
+import { filterItemsByLocation } from '../transformers/square-catalog.transformer.js';
+
+// ─── Snapshot Model ──────────────────────────────────────────
+
+/**
+ * The merchant's full catalog, normalized into maps keyed by Square object ID.
+ * Plain objects (not Map) so the snapshot survives JSON round-trips through Redis.
+ */
+export interface CatalogSnapshot {
+  items: Record<string, SquareCatalogItem>;
+  categories: Record<string, SquareCatalogCategory>;
+  images: Record<string, SquareCatalogImage>;
+  variations: Record<string, SquareCatalogVariation>;
+  modifier_lists: Record<string, SquareCatalogModifierList>;
+  item_options: Record<string, SquareCatalogItemOption>;
+  /** ISO timestamp of when the snapshot was fetched from Square. */
+  fetched_at: string;
+  /**
+   * Catalog version time the snapshot is current as of (Square's `latest_time`).
+   * Incremental syncs ask Square for objects changed after it (`begin_time`).
+   */
+  synced_at: string;
+  /** ISO timestamp of the last change to the snapshot: full fetch, sync or inventory update. */
+  updated_at: string;
+  /**
+   * Square catalog version: the highest object `version` seen, including
+   * objects deleted by incremental syncs. Square versions only ever grow.
+   */
+  version: number;
+  /** Set when the page or time budget ran out before Square's last page (see PaginationOptions). */
+  partial?: boolean;
+}
+
+/**
+ * Indexes Square search results into a CatalogSnapshot.
+ *
+ * Objects from both `objects` and `related_objects` are indexed by type.
+ * Variations nested inside `item_data.variations` are indexed as well so
+ * they can be looked up by ID without walking every item.
+ *
+ * @param objects - Square API `objects` array (ITEM objects)
+ * @param relatedObjects - Square API `related_objects` array
+ * @param syncedAt - Square `latest_time` of the fetch, defaults to now
+ * @returns Normalized snapshot
+ */
+export function buildCatalogSnapshot(
+  objects: SquareCatalogObject[],
+  relatedObjects: SquareCatalogObject[],
+  syncedAt?: string,
+): CatalogSnapshot {
+  const fetchedAt = new Date().toISOString();
+  const snapshot: CatalogSnapshot = {
+    items: {},
+    categories: {},
+    images: {},
+    variations: {},
+    modifier_lists: {},
+    item_options: {},
+    fetched_at: fetchedAt,
+    synced_at: syncedAt ?? fetchedAt,
+    updated_at: fetchedAt,
+    version: 0,
+  };
+
+  for (const obj of [...objects, ...relatedObjects]) {
+    snapshot.version = Math.max(snapshot.version, obj.version ?? 0);
+
+    switch (obj.type) {
+      case 'ITEM':
+        snapshot.items[obj.id] = obj;
+        for (const variation of obj.item_data.variations ?? []) {
+          snapshot.variations[variation.id] = variation;
+        }
+        break;
+      case 'CATEGORY':
+        snapshot.categories[obj.id] = obj;
+        break;
+      case 'IMAGE':
+        snapshot.images[obj.id] = obj;
+        break;
+      case 'ITEM_VARIATION':
+        snapshot.variations[obj.id] = obj;
+        break;
+      case 'MODIFIER_LIST':
+        snapshot.modifier_lists[obj.id] = obj;
+        break;
+      case 'ITEM_OPTION':
+        snapshot.item_options[obj.id] = obj;
+        break;
+    }
+  }
+
+  return snapshot;
+}
+
+/** Returns the snapshot's items that are sold at a specific location. */
+export function snapshotItemsAtLocation(
+  snapshot: CatalogSnapshot,
+  locationId: string,
+): SquareCatalogItem[] {
+  return filterItemsByLocation(Object.values(snapshot.items), locationId);
+}
+
+/** Returns one item if it exists in the snapshot and is sold at the location. */
+export function snapshotItemAtLocation(
+  snapshot: CatalogSnapshot,
+  itemId: string,
+  locationId: string,
+): SquareCatalogItem | null {
+  const item = snapshot.items[itemId];
+  if (!item) return null;
+  return filterItemsByLocation([item], locationId).length > 0 ? item : null;
+}
+
+// ─── Incremental Sync ────────────────────────────────────────
+
+/** Object types requested when asking Square what changed since the last sync. */
+const SYNC_OBJECT_TYPES = [
+  'ITEM',
+  'ITEM_VARIATION',
+  'CATEGORY',
+  'IMAGE',
+  'MODIFIER_LIST',
+  'MODIFIER',
+  'ITEM_OPTION',
+  'ITEM_OPTION_VAL',
+] as const;
+
+/** Locations whose catalog views a change touches, or 'all' when an item sold everywhere is involved. */
+export type AffectedLocations = string[] | 'all';
+
+/**
+ * Reverse lookups from nested and supporting objects to the snapshot items
+ * that use them, built in one pass so each changed object is a lookup.
+ */
+interface SnapshotReferences {
+  /** Owning item ID by variation ID. */
+  variationItems: Map<string, string>;
+  /** Item IDs by referenced category, image, modifier list or item option ID. */
+  referencingItems: Map<string, Set<string>>;
+}
+
+/** Indexes which items own each variation and reference each supporting object. */
+function indexReferences(snapshot: CatalogSnapshot): SnapshotReferences {
+  const variationItems = new Map<string, string>();
+  const referencingItems = new Map<string, Set<string>>();
+  const reference = (objectId: string, itemId: string) => {
+    const ids = referencingItems.get(objectId) ?? new Set<string>();
+    referencingItems.set(objectId, ids.add(itemId));
+  };
+
+  for (const item of Object.values(snapshot.items)) {
+    const data = item.item_data;
+    data.variations?.forEach((variation) => variationItems.set(variation.id, item.id));
+    if (data.category_id) reference(data.category_id, item.id);
+    data.image_ids?.forEach((imageId) => reference(imageId, item.id));
+    data.modifier_list_info?.forEach((info) => reference(info.modifier_list_id, item.id));
+    data.item_options?.forEach((option) => reference(option.item_option_id, item.id));
+  }
+
+  return { variationItems, referencingItems };
+}
+
+/** Returns the ID of the item that owns a variation, from the variation or the snapshot. */
+function parentItemId(
+  references: SnapshotReferences,
+  variation: SquareCatalogVariation,
+): string | null {
+  return (
+    variation.item_variation_data.item_id ?? references.variationItems.get(variation.id) ?? null
+  );
+}
+
+/** IDs of snapshot items that reference a supporting object (category, image, modifier list, ...). */
+function itemsReferencing(references: SnapshotReferences, obj: SquareCatalogObject): string[] {
+  const ids = (objectId: string | undefined) =>
+    objectId ? [...(references.referencingItems.get(objectId) ?? [])] : [];
+
+  switch (obj.type) {
+    case 'CATEGORY':
+    case 'IMAGE':
+    case 'MODIFIER_LIST':
+    case 'ITEM_OPTION':
+      return ids(obj.id);
+    case 'MODIFIER':
+      return ids(obj.modifier_data.modifier_list_id);
+    case 'ITEM_OPTION_VAL':
+      return ids(obj.item_option_value_data.item_option_id);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Works out which locations' catalog views a set of changed objects affects.
+ *
+ * Every item touched by a change is considered where it was sold before the
+ * change (from the snapshot) and where it is sold after (from the changed
+ * object), so items moved away from a location still invalidate it.
+ *
+ * @param snapshot - Snapshot as it was before the changes
+ * @param changed - Objects Square reports as changed or deleted
+ * @returns Affected location IDs, or 'all'
+ */
+export function affectedLocations(
+  snapshot: CatalogSnapshot,
+  changed: SquareCatalogObject[],
+): AffectedLocations {
+  const references = indexReferences(snapshot);
+  const changedItems = new Map<string, SquareCatalogItem>();
+  const itemIds = new Set<string>();
+
+  for (const obj of changed) {
+    if (obj.type === 'ITEM') {
+      changedItems.set(obj.id, obj);
+      itemIds.add(obj.id);
+    } else if (obj.type === 'ITEM_VARIATION') {
+      const itemId = parentItemId(references, obj);
+      if (itemId) itemIds.add(itemId);
+    } else {
+      itemsReferencing(references, obj).forEach((id) => itemIds.add(id));
+    }
+  }
+
+  const locations = new Set<string>();
+  for (const itemId of itemIds) {
+    for (const version of [snapshot.items[itemId], changedItems.get(itemId)]) {
+      if (!version) continue;
+      if (version.present_at_all_locations) return 'all';
+      version.present_at_location_ids?.forEach((id) => locations.add(id));
+    }
+  }
+
+  return [...locations];
+}
+
+/** Replaces (or with `remove`, drops) a nested object by ID in a list. */
+function patchList<T extends { id: string }>(list: T[] | undefined, obj: T, remove: boolean): T[] {
+  const rest = (list ?? []).filter((entry) => entry.id !== obj.id);
+  return remove ? rest : [...rest, obj];
+}
+
+/**
+ * Applies changed and deleted objects to a snapshot.
+ * Nested objects (variations, modifiers, option values) are patched inside
+ * their parents as well as in the snapshot's own indexes.
+ *
+ * @param snapshot - Snapshot to patch (not mutated)
+ * @param changed - Objects Square reports as changed or deleted
+ * @param syncedAt - Catalog version time the patched snapshot is current as of
+ * @returns Patched copy of the snapshot
+ */
+export function applyCatalogChanges(
+  snapshot: CatalogSnapshot,
+  changed: SquareCatalogObject[],
+  syncedAt: string,
+): CatalogSnapshot {
+  const next: CatalogSnapshot = {
+    ...snapshot,
+    items: { ...snapshot.items },
+    categories: { ...snapshot.categories },
+    images: { ...snapshot.images },
+    variations: { ...snapshot.variations },
+    modifier_lists: { ...snapshot.modifier_lists },
+    item_options: { ...snapshot.item_options },
+    synced_at: syncedAt,
+    updated_at: new Date().toISOString(),
+  };
+  // Built on the first variation change; most syncs carry none
+  let references: SnapshotReferences | undefined;
+
+  for (const obj of changed) {
+    const deleted = obj.is_deleted === true;
+    next.version = Math.max(next.version ?? 0, obj.version ?? 0);
+
+    switch (obj.type) {
+      case 'ITEM': {
+        for (const variation of next.items[obj.id]?.item_data.variations ?? []) {
+          delete next.variations[variation.id];
+        }
+        if (deleted) {
+          delete next.items[obj.id];
+        } else {
+          next.items[obj.id] = obj;
+          for (const variation of obj.item_data.variations ?? []) {
+            next.variations[variation.id] = variation;
+          }
+        }
+        break;
+      }
+      case 'ITEM_VARIATION': {
+        if (deleted) delete next.variations[obj.id];
+        else next.variations[obj.id] = obj;
+
+        references ??= indexReferences(snapshot);
+        const itemId = parentItemId(references, obj);
+        const item = itemId ? next.items[itemId] : undefined;
+        if (item) {
+          next.items[item.id] = {
+            ...item,
+            item_data: {
+              ...item.item_data,
+              variations: patchList(item.item_data.variations, obj, deleted),
+            },
+          };
+        }
+        break;
+      }
+      case 'CATEGORY':
+        if (deleted) delete next.categories[obj.id];
+        else next.categories[obj.id] = obj;
+        break;
+      case 'IMAGE':
+        if (deleted) delete next.images[obj.id];
+        else next.images[obj.id] = obj;
+        break;
+      case 'MODIFIER_LIST':
+        if (deleted) delete next.modifier_lists[obj.id];
+        else next.modifier_lists[obj.id] = obj;
+        break;
+      case 'MODIFIER': {
+        const listId = obj.modifier_data.modifier_list_id;
+        const list = listId ? next.modifier_lists[listId] : undefined;
+        if (list) {
+          next.modifier_lists[list.id] = {
+            ...list,
+            modifier_list_data: {
+              ...list.modifier_list_data,
+              modifiers: patchList(list.modifier_list_data.modifiers, obj, deleted),
+            },
+          };
+        }
+        break;
+      }
+      case 'ITEM_OPTION':
+        if (deleted) delete next.item_options[obj.id];
+        else next.item_options[obj.id] = obj;
+        break;
+      case 'ITEM_OPTION_VAL': {
+        const optionId = obj.item_option_value_data.item_option_id;
+        const option = optionId ? next.item_options[optionId] : undefined;
+        if (option) {
+          next.item_options[option.id] = {
+            ...option,
+            item_option_data: {
+              ...option.item_option_data,
+              values: patchList(option.item_option_data.values, obj, deleted),
+            },
+          };
+        }
+        break;
+      }
+    }
+  }
+
+  return next;
+}
+
+/** Outcome of an incremental sync against the cached snapshot. */
+export interface CatalogSyncResult {
+  /** Objects Square reported as changed or deleted since the last sync. */
+  changed: number;
+  /** Locations whose derived catalog views are now out of date. */
+  locations: AffectedLocations;
+}
+
+// ─── Service ─────────────────────────────────────────────────
+
+/**
+ * Fetches the merchant's full catalog from Square once and caches it as a
+ * single snapshot shared by every catalog-derived route. Routes build their
+ * per-location views from the snapshot instead of paging Square themselves.
+ *
+ * With a stale window, an expired snapshot keeps being served while one
+ * background refresh pages Square, so no request waits on a full fetch.
+ */
+export class CatalogSnapshotService {
+  private readonly swr: SwrCache;
+
+  constructor(
+    private readonly squareClient: AxiosInstance,
+    private readonly cache: CacheProvider,
+    ttlSeconds: number,
+    staleTtlSeconds = 0,
+    private readonly pagination: PaginationOptions = DEFAULT_PAGINATION_OPTIONS,
+  ) {
+    this.swr = new SwrCache(
+      cache,
+      ttlSeconds,
+      ttlSeconds + staleTtlSeconds,
+      undefined,
+      pagination.timeoutMs,
+    );
+  }
+
+  /** Returns the cached snapshot, fetching it from Square on a miss. */
+  async getSnapshot(): Promise<CatalogSnapshot> {
+    const { value } = await this.swr.get(CacheKeys.catalogSnapshot(), () => this.fetchSnapshot());
+    return value;
+  }
+
+  /**
+   * Returns a snapshot that is within its TTL, waiting for a refetch when
+   * the cached one is stale. For building views that are cached themselves
+   * (per-location catalogs and categories): built from a stale snapshot,
+   * they would be stored as fresh while holding old data.
+   */
+  async getFreshSnapshot(): Promise<CatalogSnapshot> {
+    const { value } = await this.swr.getFresh(CacheKeys.catalogSnapshot(), () =>
+      this.fetchSnapshot(),
+    );
+    return value;
+  }
+
+  /** Drops the cached snapshot so the next read refetches from Square. */
+  async invalidate(): Promise<void> {
+    await this.cache.delete(CacheKeys.catalogSnapshot());
+  }
+
+  /**
+   * Brings the cached snapshot up to date by fetching only the objects that
+   * changed since it was last synced (Square `begin_time`), patching them in
+   * and reporting which locations they affect.
+   *
+   * Runs under the snapshot's load lock (SwrCache.update), so a full refetch
+   * can't complete mid-sync and then be overwritten by the patched older copy.
+   *
+   * @returns The sync result, or null when no snapshot is cached (nothing to patch)
+   */
+  async syncChanges(): Promise<CatalogSyncResult | null> {
+    return this.swr.update<CatalogSnapshot, CatalogSyncResult>(
+      CacheKeys.catalogSnapshot(),
+      async (snapshot) => {
+        const { objects: changed, latestTime } = await this.fetchChangesSince(snapshot.synced_at);
+        const syncedAt = latestTime ?? new Date().toISOString();
+
+        if (changed.length === 0) {
+          return {
+            value: { ...snapshot, synced_at: syncedAt },
+            result: { changed: 0, locations: [] },
+          };
+        }
+
+        const locations = affectedLocations(snapshot, changed);
+        const affected = locations === 'all' ? 'all locations' : `${locations.length} location(s)`;
+        console.info(
+          `[snapshot] Patched ${changed.length} changed objects since ${snapshot.synced_at}, ` +
+            `affecting ${affected}`,
+        );
+        return {
+          value: applyCatalogChanges(snapshot, changed, syncedAt),
+          result: { changed: changed.length, locations },
+        };
+      },
+    );
+  }
+
+  /** Pages through /catalog/search and normalizes the result. */
+  private async fetchSnapshot(): Promise<CatalogSnapshot> {
+    const allRelatedObjects: SquareCatalogObject[] = [];
+    let latestTime: string | undefined;
+
+    const { objects: catalogObjects, partial } = await aggregateSquarePages<SquareCatalogObject>(
+      async (cursor?: string) => {
+        const response = await this.squareClient.post<SquareSearchCatalogResponse>(
+          '/catalog/search',
+          {
+            object_types: ['ITEM'],
+            include_related_objects: true,
+            limit: 100,
+            cursor,
+          },
+        );
+
+        // Accumulate related_objects across all pages
+        if (response.data.related_objects) {
+          allRelatedObjects.push(...response.data.related_objects);
+        }
+        latestTime ??= response.data.latest_time;
+
+        return {
+          objects: response.data.objects,
+          cursor: response.data.cursor,
+        };
+      },
+      this.pagination,
+    );
+
+    const snapshot = buildCatalogSnapshot(catalogObjects, allRelatedObjects, latestTime);
+    if (partial) snapshot.partial = true;
+    console.info(
+      `[snapshot] Built ${partial ? 'partial ' : ''}catalog snapshot: ` +
+        `${Object.keys(snapshot.items).length} items, ` +
+        `${Object.keys(snapshot.categories).length} categories`,
+    );
+    return snapshot;
+  }
+
+  /** Pages through /catalog/search for objects changed or deleted after `beginTime`. */
+  private async fetchChangesSince(
+    beginTime: string,
+  ): Promise<{ objects: SquareCatalogObject[]; latestTime?: string }> {
+    let latestTime: string | undefined;
+
+    // A cut-short change list can't be patched in safely: fail so the caller invalidates instead
+    const pagination: PaginationOptions = { ...this.pagination, onLimit: 'error' };
+    const { objects } = await aggregateSquarePages<SquareCatalogObject>(async (cursor?: string) => {
+      const response = await this.squareClient.post<SquareSearchCatalogResponse>(
+        '/catalog/search',
+        {
+          object_types: SYNC_OBJECT_TYPES,
+          begin_time: beginTime,
+          include_deleted_objects: true,
+          limit: 100,
+          cursor,
+        },
+      );
+
+      latestTime ??= response.data.latest_time;
+      return {
+        objects: response.data.objects,
+        cursor: response.data.cursor,
+      };
+    }, pagination);
+
+    return { objects, latestTime };
+  }
+}
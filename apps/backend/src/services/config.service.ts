@@ -21,6 +21,21 @@ const envSchema = z.object({
   // Square
   SQUARE_ACCESS_TOKEN: z.string().min(1, 'SQUARE_ACCESS_TOKEN is required'),
   SQUARE_ENVIRONMENT: z.enum(['sandbox', 'production']).default('sandbox'),
+  // Retries for idempotent Square calls that hit a 429, 5xx or network error
+  SQUARE_MAX_RETRIES: z.coerce.number().int().nonnegative().default(3),
+  SQUARE_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().default(200),
+  SQUARE_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().default(5_000),
+  // Circuit breaker: consecutive failures that open it, and how long it stays open
+  SQUARE_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  SQUARE_CIRCUIT_RESET_MS: z.coerce.number().int().positive().default(30_000),
+  // Page budget for catalog pagination (100 items per page) and what happens when it runs out
+  SQUARE_MAX_PAGES: z.coerce.number().int().positive().default(50),
+  SQUARE_PAGINATION_TIMEOUT_MS: z.coerce.number().int().positive().default(60_000),
+  SQUARE_PAGINATION_ON_LIMIT: z.enum(['partial', 'error']).default('partial'),
+  SQUARE_PAGINATION_PREFETCH: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
 
   // Server
   PORT: z.coerce.number().int().positive().default(3001),
@@ -28,18 +43,41 @@ const envSchema = z.object({
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
 
   // Cache
-  CACHE_PROVIDER: z.enum(['memory', 'redis']).default('memory'),
+  CACHE_PROVIDER: z.enum(['memory', 'redis', 'tiered']).default('memory'),
   CACHE_TTL_SECONDS: z.coerce.number().int().positive().default(300),
+  // How long past CACHE_TTL_SECONDS an entry may still be served stale while it refreshes
+  CACHE_STALE_TTL_SECONDS: z.coerce.number().int().nonnegative().default(600),
+  // Stock levels change far more often than the menu, so they get their own, shorter TTL
+  INVENTORY_TTL_SECONDS: z.coerce.number().int().positive().default(30),
+  // Catalog versions kept per location for GET /api/catalog/changes, and for how long
+  CATALOG_HISTORY_VERSIONS: z.coerce.number().int().positive().default(20),
+  CATALOG_HISTORY_TTL_SECONDS: z.coerce.number().int().positive().default(86_400),
+  // How long last-known-good copies are kept to serve while Square is down (0 disables)
+  LAST_KNOWN_GOOD_TTL_SECONDS: z.coerce.number().int().nonnegative().default(604_800),
+  // Persist last-known-good snapshots to disk so they survive restarts
+  SNAPSHOT_STORE_ENABLED: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  SNAPSHOT_STORE_DIR: z.string().default('.data/snapshots'),
 
-  // Redis — required only when CACHE_PROVIDER is 'redis'
+  // Redis — required only when CACHE_PROVIDER is 'redis' or 'tiered'
   REDIS_URL: z.string().optional(),
 
+  // In-process L1 in front of Redis when CACHE_PROVIDER is 'tiered'
+  CACHE_L1_MAX_ENTRIES: z.coerce.number().int().positive().default(100),
+  CACHE_L1_TTL_SECONDS: z.coerce.number().int().positive().default(10),
+
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(50),
 
   // Square webhook
   SQUARE_WEBHOOK_SIGNATURE_KEY: z.string().optional(),
+  // Public URL Square posts to; part of the signed payload. Derived from the request if unset.
+  SQUARE_WEBHOOK_NOTIFICATION_URL: z.string().url().optional(),
+  // How long processed event IDs are remembered; Square retries deliveries for up to 24 hours
+  WEBHOOK_EVENT_RETENTION_SECONDS: z.coerce.number().int().positive().default(86_400),
 });
 
 export type EnvConfig = z.infer<typeof envSchema>;
@@ -62,9 +100,9 @@ function loadConfig(): EnvConfig & { SQUARE_BASE_URL: string } {
 
   const env = result.data;
 
-  // Redis URL is required when using redis cache provider
-  if (env.CACHE_PROVIDER === 'redis' && !env.REDIS_URL) {
-    console.error('[config] REDIS_URL is required when CACHE_PROVIDER=redis');
+  // Redis URL is required when using a Redis-backed cache provider
+  if ((env.CACHE_PROVIDER === 'redis' || env.CACHE_PROVIDER === 'tiered') && !env.REDIS_URL) {
+    console.error(`[config] REDIS_URL is required when CACHE_PROVIDER=${env.CACHE_PROVIDER}`);
     process.exit(1);
   }
 
@@ -0,0 +1,151 @@
+import type { AxiosInstance } from 'axios';
+import type {
+  CategoryGroup,
+  MenuItem,
+  SquareBatchRetrieveInventoryCountsResponse,
+  SquareInventoryCount,
+} from '@per-diem/shared-types';
+import type { CacheProvider } from './cache.service.js';
+import { CacheKeys, SwrCache } from './cache.service.js';
+import {
+  type CatalogSnapshotService,
+  snapshotItemsAtLocation,
+} from './catalog-snapshot.service.js';
+import { aggregateSquarePages } from '../utils/pagination.js';
+
+/** Most catalog object IDs Square accepts in one batch-retrieve-counts request. */
+const BATCH_SIZE = 1000;
+
+/** Stock of one variation at one location. */
+export interface InventoryLevel {
+  in_stock: boolean;
+  quantity_remaining: number;
+}
+
+/** Stock levels by variation ID. Variations Square doesn't track are absent. */
+export type InventoryLevels = Record<string, InventoryLevel>;
+
+// ─── Pure helpers ────────────────────────────────────────────
+
+/** Reduces Square inventory counts to IN_STOCK levels by variation ID. */
+export function inventoryLevels(counts: SquareInventoryCount[]): InventoryLevels {
+  const levels: InventoryLevels = {};
+
+  for (const count of counts) {
+    if (count.state !== 'IN_STOCK') continue;
+    const quantity = Math.max(0, Number(count.quantity) || 0);
+    levels[count.catalog_object_id] = { in_stock: quantity > 0, quantity_remaining: quantity };
+  }
+  return levels;
+}
+
+/**
+ * Merges stock levels into an item. Tracked variations get `in_stock` and
+ * `quantity_remaining`, and are marked unavailable when sold out. The item
+ * gets `in_stock: false` once none of its variations can be ordered.
+ * Items without any tracked variation are returned unchanged.
+ */
+export function withInventory(item: MenuItem, levels: InventoryLevels): MenuItem {
+  let tracked = false;
+
+  const variations = item.variations.map((variation) => {
+    const level = levels[variation.id];
+    if (!level) return variation;
+
+    tracked = true;
+    return {
+      ...variation,
+      ...level,
+      is_available: variation.is_available !== false && level.in_stock,
+    };
+  });
+
+  if (!tracked) return item;
+  return {
+    ...item,
+    variations,
+    in_stock: variations.some((variation) => variation.is_available !== false),
+  };
+}
+
+/** Merges stock levels into every item of a grouped catalog. */
+export function applyInventoryLevels(
+  groups: CategoryGroup[],
+  levels: InventoryLevels,
+): CategoryGroup[] {
+  return groups.map((group) => ({
+    ...group,
+    items: group.items.map((item) => withInventory(item, levels)),
+  }));
+}
+
+// ─── Service ─────────────────────────────────────────────────
+
+/**
+ * Loads stock levels for a location's variations from Square's inventory
+ * API (batch-retrieve-counts).
+ *
+ * Levels are cached per location separately from the catalog and with a
+ * shorter TTL, so sold-out items show up within seconds while the much
+ * larger catalog keeps being served from cache. Loads go through SwrCache
+ * (with no stale window), so concurrent misses share one Square request.
+ */
+export class InventoryService {
+  private readonly swr: SwrCache;
+
+  constructor(
+    private readonly squareClient: AxiosInstance,
+    private readonly cache: CacheProvider,
+    private readonly catalogSnapshots: CatalogSnapshotService,
+    ttlSeconds: number,
+  ) {
+    this.swr = new SwrCache(cache, ttlSeconds, ttlSeconds);
+  }
+
+  /** Returns stock levels for every variation sold at the location. */
+  async getLevels(locationId: string): Promise<InventoryLevels> {
+    const { value } = await this.swr.get(CacheKeys.inventory(locationId), async () => {
+      const snapshot = await this.catalogSnapshots.getSnapshot();
+      const variationIds = snapshotItemsAtLocation(snapshot, locationId).flatMap(
+        (item) => item.item_data.variations?.map((variation) => variation.id) ?? [],
+      );
+      return this.fetchLevels(locationId, variationIds);
+    });
+    return value;
+  }
+
+  /** Drops cached levels so the next read refetches them from Square. */
+  async invalidate(locationIds: string[]): Promise<void> {
+    await Promise.all(locationIds.map((id) => this.cache.delete(CacheKeys.inventory(id))));
+  }
+
+  /** Pages through /inventory/counts/batch-retrieve, in batches of variation IDs. */
+  private async fetchLevels(locationId: string, variationIds: string[]): Promise<InventoryLevels> {
+    const counts: SquareInventoryCount[] = [];
+
+    for (let start = 0; start < variationIds.length; start += BATCH_SIZE) {
+      const { objects } = await aggregateSquarePages<SquareInventoryCount>(
+        async (cursor?: string) => {
+          const response = await this.squareClient.post<SquareBatchRetrieveInventoryCountsResponse>(
+            '/inventory/counts/batch-retrieve',
+            {
+              catalog_object_ids: variationIds.slice(start, start + BATCH_SIZE),
+              location_ids: [locationId],
+              states: ['IN_STOCK'],
+              cursor,
+            },
+          );
+          return { objects: response.data.counts, cursor: response.data.cursor };
+        },
+      );
+      counts.push(...objects);
+    }
+
+    const levels = inventoryLevels(counts);
+    console.info(
+      `[inventory] Loaded stock for ${Object.keys(levels).length} of ` +
+        `${variationIds.length} variations at ${locationId}`,
+    );
+    return levels;
+  }
+}
@@ -0,0 +1,152 @@
+import type { AxiosInstance } from 'axios';
+import type {
+  SquareListLocationsResponse,
+  SquareLocation,
+  Location,
+  LocationsResponse,
+} from '@per-diem/shared-types';
+import type { CacheProvider, LastKnownGoodCache, SwrResult } from './cache.service.js';
+import { CacheKeys } from './cache.service.js';
+import {
+  computeOpenStatus,
+  transformSquareLocation,
+} from '../transformers/square-location.transformer.js';
+import {
+  type PriceFormat,
+  DEFAULT_PRICE_FORMAT,
+} from '../transformers/square-catalog.transformer.js';
+import { AppError } from '../utils/app-error.js';
+
+/** Locations as cached, with when they were fetched from Square. */
+interface CachedLocations extends LocationsResponse {
+  /** Epoch ms of the fetch (missing on entries cached before it was tracked). */
+  fetched_at?: number;
+}
+
+/**
+ * Loads the merchant's ACTIVE locations from Square and caches them.
+ * Shared by the locations route and any route that needs per-location
+ * settings such as the price locale.
+ *
+ * Open/closed status depends on the clock, so it is re-evaluated on every
+ * read instead of being served from the cached copy.
+ *
+ * With a LastKnownGoodCache, each fetch is also kept as a long-lived copy
+ * that is served with `degraded: true` when Square is unavailable.
+ */
+export class LocationService {
+  constructor(
+    private readonly squareClient: AxiosInstance,
+    private readonly cache: CacheProvider,
+    private readonly ttlSeconds: number,
+    private readonly lastKnownGood?: LastKnownGoodCache,
+  ) {}
+
+  /** Returns all ACTIVE locations, fetching them from Square on a cache miss. */
+  async getLocations(): Promise<LocationsResponse> {
+    return (await this.getLocationsResult()).value;
+  }
+
+  /**
+   * Like getLocations, but also reports where the locations came from and
+   * when they were fetched from Square (`storedAt`, for Last-Modified).
+   * Degraded copies carry no `storedAt`.
+   */
+  async getLocationsResult(): Promise<SwrResult<LocationsResponse>> {
+    const cacheKey = CacheKeys.locations();
+
+    const cached = await this.cache.get<CachedLocations>(cacheKey);
+    if (cached) {
+      console.info('[cache] HIT: locations');
+      return {
+        value: { locations: cached.locations.map((loc) => withOpenStatus(loc)) },
+        freshness: 'fresh',
+        storedAt: cached.fetched_at,
+      };
+    }
+
+    console.info('[cache] MISS: locations');
+
+    let result: LocationsResponse;
+    try {
+      result = await this.fetchLocations();
+    } catch (error) {
+      const fallback = await this.lastKnownGood?.fallback<LocationsResponse>(cacheKey, error);
+      if (!fallback) throw error;
+      return {
+        value: {
+          locations: fallback.locations.map((loc) => withOpenStatus(loc)),
+          degraded: true,
+        },
+        freshness: 'degraded',
+      };
+    }
+
+    const fetchedAt = Date.now();
+    await this.cache.set<CachedLocations>(
+      cacheKey,
+      { ...result, fetched_at: fetchedAt },
+      this.ttlSeconds,
+    );
+    await this.lastKnownGood?.save(cacheKey, result);
+    return { value: result, freshness: 'miss', storedAt: fetchedAt };
+  }
+
+  /** Fetches ACTIVE locations from Square. */
+  private async fetchLocations(): Promise<LocationsResponse> {
+    const response = await this.squareClient.get<SquareListLocationsResponse>('/locations');
+
+    if (!response.data.locations) {
+      throw AppError.upstream('Square API returned no locations');
+    }
+
+    // Filter to ACTIVE only and transform
+    return {
+      locations: response.data.locations
+        .filter((loc: SquareLocation) => loc.status === 'ACTIVE')
+        .map((loc) => transformSquareLocation(loc)),
+    };
+  }
+
+  /** Drops the cached locations so the next read refetches from Square. */
+  async invalidate(): Promise<void> {
+    await this.cache.delete(CacheKeys.locations());
+  }
+
+  /** Returns one ACTIVE location by ID, or null if it is unknown or inactive. */
+  async getLocation(locationId: string): Promise<Location | null> {
+    const { locations } = await this.getLocations();
+    return locations.find((loc) => loc.id === locationId) ?? null;
+  }
+
+  /**
+   * Returns the price format for a location. Locations only decide how
+   * prices are formatted, so when they can't be loaded (Square down with no
+   * last-known-good copy) this falls back to DEFAULT_PRICE_FORMAT instead
+   * of failing the catalog request.
+   */
+  async getPriceFormat(locationId: string): Promise<PriceFormat> {
+    try {
+      return priceFormatForLocation(await this.getLocation(locationId));
+    } catch (error) {
+      console.warn(
+        `[locations] Using default price format for ${locationId}: ${(error as Error).message}`,
+      );
+      return DEFAULT_PRICE_FORMAT;
+    }
+  }
+}
+
+/** Re-evaluates a location's open/closed status at `now`. */
+export function withOpenStatus(location: Location, now: Date = new Date()): Location {
+  return { ...location, ...computeOpenStatus(location.business_hours, location.timezone, now) };
+}
+
+/** Price formatting settings for a location, defaulting to en-US / USD when unknown. */
+export function priceFormatForLocation(location: Location | null): PriceFormat {
+  if (!location) return DEFAULT_PRICE_FORMAT;
+  return {
+    locale: location.locale,
+    currency: location.currency ?? DEFAULT_PRICE_FORMAT.currency,
+  };
+}
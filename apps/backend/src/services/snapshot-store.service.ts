@@ -0,0 +1,68 @@
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { SnapshotStore, StoredSnapshot } from './cache.service.js';
+
+const FILE_SUFFIX = '.json';
+
+/**
+ * Keeps last-known-good copies as one JSON file per cache key
+ * (e.g. `catalog%3ALOC1.json`), so they survive restarts without a database.
+ *
+ * Writes go to a temp file that is renamed into place, so a crash mid-write
+ * never leaves a truncated snapshot behind.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly dir: string) {}
+
+  async save(key: string, value: unknown): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const file = this.fileFor(key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    const snapshot: StoredSnapshot = { key, saved_at: new Date().toISOString(), value };
+    await writeFile(tmp, JSON.stringify(snapshot));
+    await rename(tmp, file);
+  }
+
+  async loadAll(): Promise<StoredSnapshot[]> {
+    const snapshots: StoredSnapshot[] = [];
+
+    for (const name of await this.snapshotFiles()) {
+      try {
+        snapshots.push(JSON.parse(await readFile(join(this.dir, name), 'utf8')) as StoredSnapshot);
+      } catch (error) {
+        console.warn(
+          `[snapshot] Skipping unreadable snapshot ${name}: ${
+            error instanceof Error ? error.message : error
+          }`,
+        );
+      }
+    }
+    return snapshots;
+  }
+
+  async list(): Promise<Omit<StoredSnapshot, 'value'>[]> {
+    const files = await this.snapshotFiles();
+
+    return Promise.all(
+      files.map(async (name) => ({
+        key: decodeURIComponent(name.slice(0, -FILE_SUFFIX.length)),
+        saved_at: (await stat(join(this.dir, name))).mtime.toISOString(),
+      })),
+    );
+  }
+
+  private fileFor(key: string): string {
+    return join(this.dir, `${encodeURIComponent(key)}${FILE_SUFFIX}`);
+  }
+
+  /** Snapshot file names; an absent directory just means nothing was saved yet. */
+  private async snapshotFiles(): Promise<string[]> {
+    try {
+      return (await readdir(this.dir)).filter((name) => name.endsWith(FILE_SUFFIX)).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
@@ -1,14 +1,186 @@
-import axios, { type AxiosInstance, type InternalAxiosRequestConfig, type AxiosResponse } from 'axios';
+import axios, {
+  type AxiosError,
+  type AxiosInstance,
+  type InternalAxiosRequestConfig,
+  type AxiosResponse,
+} from 'axios';
 import { AppError } from '../utils/app-error.js';
 
+// ─── Retry Policy ────────────────────────────────────────────
+
+/** How transient Square failures (429, 5xx, network errors) are retried. */
+export interface SquareRetryOptions {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  /** Backoff ceiling for the first retry; doubles on each further retry. */
+  baseDelayMs: number;
+  /** Upper bound on any single wait. A longer Retry-After is not waited for. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: SquareRetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5_000,
+};
+
+/** Square POST endpoints that only read data and are safe to repeat. */
+const READ_ONLY_POST_PATHS = [/\/search$/, /\/batch-retrieve$/];
+
+type RetryableConfig = InternalAxiosRequestConfig & { retryCount?: number };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Whether repeating the request cannot change anything in Square. */
+function isIdempotentRequest(config: InternalAxiosRequestConfig): boolean {
+  const method = config.method?.toUpperCase() ?? 'GET';
+  if (['GET', 'HEAD', 'OPTIONS'].includes(method)) return true;
+  return method === 'POST' && READ_ONLY_POST_PATHS.some((path) => path.test(config.url ?? ''));
+}
+
+/** Whether the failure is worth retrying: rate limited, server error, or no response at all. */
+function isTransientFailure(error: AxiosError): boolean {
+  if (error.code === 'ERR_CANCELED') return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ * @returns The delay, or null if the header is missing or malformed
+ */
+export function parseRetryAfter(header: unknown, now: number = Date.now()): number | null {
+  if (typeof header !== 'string' || header.trim() === '') return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Works out how long to wait before a retry.
+ *
+ * Square's Retry-After wins when present; otherwise exponential backoff with
+ * full jitter (a random wait up to baseDelayMs × 2^attempt, capped at
+ * maxDelayMs) so many instances don't retry in lockstep.
+ *
+ * @param attempt - Zero-based retry number
+ * @returns Delay in ms, or null if Retry-After asks for longer than maxDelayMs
+ */
+export function retryDelayMs(
+  attempt: number,
+  options: SquareRetryOptions,
+  retryAfterHeader?: unknown,
+  random: () => number = Math.random,
+): number | null {
+  const retryAfter = parseRetryAfter(retryAfterHeader);
+  if (retryAfter !== null) {
+    return retryAfter <= options.maxDelayMs ? retryAfter : null;
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+// ─── Circuit Breaker ─────────────────────────────────────────
+
+/** When Square calls are short-circuited after repeated failures. */
+export interface SquareCircuitOptions {
+  /** Consecutive failed requests (after retries) that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before one trial request is let through. */
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_CIRCUIT_OPTIONS: SquareCircuitOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Classic three-state circuit breaker.
+ *
+ * - closed: requests flow; consecutive failures are counted
+ * - open: requests fail immediately, without waiting on Square's timeout
+ * - half-open: after resetTimeoutMs one trial request is let through; its
+ *   success closes the circuit, its failure opens it again, and an
+ *   inconclusive end (e.g. cancelled) hands the trial to the next request
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private currentState: CircuitState = 'closed';
+
+  constructor(
+    private readonly options: SquareCircuitOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /** Whether a request may be sent now. Moves an expired open circuit to half-open. */
+  allowRequest(): boolean {
+    if (this.currentState === 'closed') return true;
+    if (this.currentState === 'half-open') return false; // trial already in flight
+
+    if (this.now() - this.openedAt < this.options.resetTimeoutMs) return false;
+    this.currentState = 'half-open';
+    console.info('[square] Circuit half-open, sending trial request');
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.currentState !== 'closed') console.info('[square] Circuit closed');
+    this.currentState = 'closed';
+    this.failures = 0;
+  }
+
+  /**
+   * Ends a request that says nothing about Square's health, such as a
+   * cancelled one. A half-open trial gives up its slot, so the next request
+   * becomes the trial instead of the circuit waiting on it forever.
+   */
+  recordInconclusive(): void {
+    if (this.currentState === 'half-open') this.currentState = 'open';
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.currentState === 'half-open' || this.failures >= this.options.failureThreshold) {
+      if (this.currentState !== 'open') {
+        console.warn(`[square] Circuit open after ${this.failures} consecutive failures`);
+      }
+      this.currentState = 'open';
+      this.openedAt = this.now();
+    }
+  }
+}
+
+// ─── Client ──────────────────────────────────────────────────
+
 /**
  * Creates a pre-configured Axios instance for the Square API.
  * - Injects Bearer token on every request
  * - Switches base URL between sandbox and production
  * - Logs request/response metadata for debugging
+ * - Retries idempotent requests on 429, 5xx and network errors (see retryDelayMs)
+ * - Fails fast with a 503 while the circuit breaker is open (see CircuitBreaker)
  * - Maps Axios errors to AppError (never leaks Square internals)
  */
-export function createSquareClient(baseUrl: string, accessToken: string): AxiosInstance {
+export function createSquareClient(
+  baseUrl: string,
+  accessToken: string,
+  retry: SquareRetryOptions = DEFAULT_RETRY_OPTIONS,
+  circuit: SquareCircuitOptions = DEFAULT_CIRCUIT_OPTIONS,
+): AxiosInstance {
+  const breaker = new CircuitBreaker(circuit);
+
   const client = axios.create({
     baseURL: `${baseUrl}/v2`,
     timeout: 15_000,
@@ -21,6 +193,11 @@ export function createSquareClient(baseUrl: string, accessToken: string): AxiosI
   // ── Request interceptor: inject auth + log ──
   client.interceptors.request.use(
     (req: InternalAxiosRequestConfig) => {
+      if (!breaker.allowRequest()) {
+        console.warn(`[square] Circuit open, skipping ${req.method?.toUpperCase()} ${req.url}`);
+        throw AppError.unavailable('Square is temporarily unavailable', 'SQUARE_UNAVAILABLE');
+      }
+
       req.headers.Authorization = `Bearer ${accessToken}`;
       // Attach timestamp for duration logging in response interceptor
       (req as InternalAxiosRequestConfig & { metadata: { startTime: number } }).metadata = {
@@ -35,22 +212,55 @@ export function createSquareClient(baseUrl: string, accessToken: string): AxiosI
     },
   );
 
-  // ── Response interceptor: log + error mapping ──
+  // ── Response interceptor: log + retry + error mapping ──
   client.interceptors.response.use(
     (res: AxiosResponse) => {
       const meta = (res.config as InternalAxiosRequestConfig & { metadata?: { startTime: number } })
         .metadata;
       const duration = meta ? Date.now() - meta.startTime : 0;
       console.info(`[square] ← ${res.status} ${res.config.url} (${duration}ms)`);
+      breaker.recordSuccess();
       return res;
     },
-    (error) => {
+    async (error) => {
+      // Already mapped: the circuit is open, or a retried request failed
+      if (error instanceof AppError) {
+        return Promise.reject(error);
+      }
+
       if (axios.isAxiosError(error)) {
         const status = error.response?.status;
         console.error(
           `[square] ← ${status ?? 'NETWORK_ERROR'} ${error.config?.url ?? 'unknown'}: ${error.message}`,
         );
 
+        const config = error.config as RetryableConfig | undefined;
+        const attempt = config?.retryCount ?? 0;
+        if (
+          config &&
+          breaker.state === 'closed' &&
+          attempt < retry.maxRetries &&
+          isTransientFailure(error) &&
+          isIdempotentRequest(config)
+        ) {
+          const delay = retryDelayMs(attempt, retry, error.response?.headers['retry-after']);
+          if (delay !== null) {
+            console.warn(
+              `[square] Retrying ${config.url} in ${delay}ms (${attempt + 1}/${retry.maxRetries})`,
+            );
+            await sleep(delay);
+            config.retryCount = attempt + 1;
+            // The retried request runs through these interceptors again, so its
+            // failure arrives here already retried or mapped to an AppError
+            return client.request(config);
+          }
+        }
+
+        // Only failures that say Square itself is unhealthy count towards opening the circuit
+        if (isTransientFailure(error)) breaker.recordFailure();
+        else if (error.response) breaker.recordSuccess();
+        else breaker.recordInconclusive();
+
         if (status === 401) {
           return Promise.reject(AppError.upstream('Square authentication failed'));
         }
@@ -63,6 +273,7 @@ export function createSquareClient(baseUrl: string, accessToken: string): AxiosI
         return Promise.reject(AppError.upstream('Square API request failed'));
       }
 
+      breaker.recordInconclusive();
       return Promise.reject(AppError.upstream('Unexpected error communicating with Square'));
     },
   );
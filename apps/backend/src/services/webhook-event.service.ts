@@ -0,0 +1,53 @@
+import type { CacheProvider } from './cache.service.js';
+import { CacheKeys } from './cache.service.js';
+
+/**
+ * Remembers which Square webhook deliveries have been processed, so
+ * retried or duplicated deliveries are acknowledged without redoing
+ * cache invalidation.
+ *
+ * Event IDs are claimed with the cache provider's lock primitive (SET NX
+ * on Redis), so two instances receiving the same delivery at once cannot
+ * both process it. A claim that fails processing is released so Square's
+ * next retry is handled normally.
+ */
+export class WebhookEventLog {
+  constructor(
+    private readonly cache: CacheProvider,
+    private readonly retentionSeconds: number,
+  ) {}
+
+  /**
+   * Claims an event for processing.
+   * @returns A token to release the claim with, or null if the event was already seen
+   */
+  async claim(eventId: string): Promise<string | null> {
+    return this.cache.acquireLock(CacheKeys.webhookEvent(eventId), this.retentionSeconds * 1000);
+  }
+
+  /** Forgets a claimed event so a later delivery of it is processed again. */
+  async release(eventId: string, token: string): Promise<void> {
+    await this.cache.releaseLock(CacheKeys.webhookEvent(eventId), token);
+  }
+
+  /** Returns the catalog version time (ISO) of the newest applied catalog update, if any. */
+  async appliedCatalogVersion(): Promise<string | null> {
+    return this.cache.get<string>(CacheKeys.appliedCatalogVersion());
+  }
+
+  /**
+   * Whether an event was created before the newest applied catalog version,
+   * i.e. it describes a catalog state that is already superseded.
+   */
+  async isSupersededCatalogEvent(createdAt: string): Promise<boolean> {
+    const applied = await this.appliedCatalogVersion();
+    return applied !== null && Date.parse(createdAt) < Date.parse(applied);
+  }
+
+  /** Records an applied catalog version, keeping the newest one seen. */
+  async recordCatalogVersion(updatedAt: string): Promise<void> {
+    const applied = await this.appliedCatalogVersion();
+    if (applied !== null && Date.parse(applied) >= Date.parse(updatedAt)) return;
+    await this.cache.set(CacheKeys.appliedCatalogVersion(), updatedAt, this.retentionSeconds);
+  }
+}
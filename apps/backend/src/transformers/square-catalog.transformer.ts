@@ -4,11 +4,65 @@ import type {
   SquareCatalogCategory,
   SquareCatalogImage,
   SquareCatalogVariation,
+  SquareMoney,
+  SquareCatalogModifierList,
+  SquareCatalogItemOption,
   Category,
   MenuItem,
   MenuItemVariation,
+  MenuItemModifierList,
+  MenuItemOption,
   CategoryGroup,
+  DietaryTag,
 } from '@per-diem/shared-types';
+import { DIETARY_TAGS } from '@per-diem/shared-types';
+
+// ─── Related Object Lookup ───────────────────────────────────
+
+/**
+ * Supporting catalog objects indexed by Square object ID, so joining an
+ * item to its category, images, modifier lists and options is a lookup
+ * rather than a scan. A CatalogSnapshot already has this shape.
+ */
+export interface RelatedObjectIndex {
+  categories: Record<string, SquareCatalogCategory>;
+  images: Record<string, SquareCatalogImage>;
+  modifier_lists: Record<string, SquareCatalogModifierList>;
+  item_options: Record<string, SquareCatalogItemOption>;
+}
+
+/** Square's `related_objects` array, or the same objects already indexed by ID. */
+export type RelatedObjects = SquareCatalogObject[] | RelatedObjectIndex;
+
+/** Indexes a `related_objects` array by type and ID; an index is returned as is. */
+export function indexRelatedObjects(relatedObjects: RelatedObjects): RelatedObjectIndex {
+  if (!Array.isArray(relatedObjects)) return relatedObjects;
+
+  const index: RelatedObjectIndex = {
+    categories: {},
+    images: {},
+    modifier_lists: {},
+    item_options: {},
+  };
+  for (const obj of relatedObjects) {
+    if (obj.type === 'CATEGORY') index.categories[obj.id] = obj;
+    else if (obj.type === 'IMAGE') index.images[obj.id] = obj;
+    else if (obj.type === 'MODIFIER_LIST') index.modifier_lists[obj.id] = obj;
+    else if (obj.type === 'ITEM_OPTION') index.item_options[obj.id] = obj;
+  }
+  return index;
+}
+
+/** Whether a category is a regular menu category (not a menu-system duplicate). */
+function isRegularCategory(category: SquareCatalogCategory): boolean {
+  // See: https://developer.squareup.com/docs/catalog-api/categorize-catalog-items
+  return (
+    !category.category_data.category_type ||
+    category.category_data.category_type === 'REGULAR_CATEGORY'
+  );
+}
+
+// ─── Transformers ────────────────────────────────────────────
 
 /**
  * Extracts unique categories from Square's related_objects array and counts items per category.
@@ -23,25 +77,21 @@ import type {
  * 3. Counts how many items reference each category
  * 4. Returns categories sorted alphabetically by name
  *
- * @param relatedObjects - Square API related_objects array (contains categories, images, variations)
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
  * @param items - Filtered catalog items (already scoped to location)
  * @returns Array of categories with item counts, sorted by name
  */
 export function extractCategoriesFromRelatedObjects(
-  relatedObjects: SquareCatalogObject[],
+  relatedObjects: RelatedObjects,
   items: SquareCatalogItem[],
 ): Category[] {
   // Step 1: Build category lookup map from related_objects
   const categoryMap = new Map<string, string>();
 
-  for (const obj of relatedObjects) {
-    if (obj.type === 'CATEGORY') {
-      const category = obj as SquareCatalogCategory;
-      // Filter for REGULAR_CATEGORY only to avoid duplicates from menu system
-      // See: https://developer.squareup.com/docs/catalog-api/categorize-catalog-items
-      if (!category.category_data.category_type || category.category_data.category_type === 'REGULAR_CATEGORY') {
-        categoryMap.set(category.id, category.category_data.name);
-      }
+  for (const category of Object.values(indexRelatedObjects(relatedObjects).categories)) {
+    // Filter for REGULAR_CATEGORY only to avoid duplicates from menu system
+    if (isRegularCategory(category)) {
+      categoryMap.set(category.id, category.category_data.name);
     }
   }
 
@@ -84,26 +134,19 @@ export function extractCategoriesFromRelatedObjects(
 }
 
 /**
- * Finds a category name by ID in the related_objects array.
+ * Finds a category name by ID in the related objects.
  *
  * @param categoryId - Square category ID
- * @param relatedObjects - Square API related_objects array
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
  * @returns Category name, or null if not found
  */
 export function findCategoryName(
   categoryId: string,
-  relatedObjects: SquareCatalogObject[],
+  relatedObjects: RelatedObjects,
 ): string | null {
-  for (const obj of relatedObjects) {
-    if (obj.type === 'CATEGORY' && obj.id === categoryId) {
-      const category = obj as SquareCatalogCategory;
-      // Filter for REGULAR_CATEGORY only to avoid duplicates from menu system
-      if (!category.category_data.category_type || category.category_data.category_type === 'REGULAR_CATEGORY') {
-        return category.category_data.name;
-      }
-    }
-  }
-  return null;
+  const category = indexRelatedObjects(relatedObjects).categories[categoryId];
+  // Filter for REGULAR_CATEGORY only to avoid duplicates from menu system
+  return category && isRegularCategory(category) ? category.category_data.name : null;
 }
 
 /**
@@ -130,33 +173,191 @@ export function filterItemsByLocation(
 }
 
 /**
- * Finds an image URL by ID in the related_objects array.
+ * Finds an image URL by ID in the related objects.
  *
  * @param imageId - Square image ID
- * @param relatedObjects - Square API related_objects array
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
  * @returns Image URL, or null if not found
  */
-export function findImageUrl(
-  imageId: string,
-  relatedObjects: SquareCatalogObject[],
-): string | null {
-  for (const obj of relatedObjects) {
-    if (obj.type === 'IMAGE' && obj.id === imageId) {
-      return (obj as SquareCatalogImage).image_data.url;
+export function findImageUrl(imageId: string, relatedObjects: RelatedObjects): string | null {
+  return indexRelatedObjects(relatedObjects).images[imageId]?.image_data.url ?? null;
+}
+
+/**
+ * Finds a modifier list by ID in the related objects.
+ *
+ * @param modifierListId - Square modifier list ID
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
+ * @returns Modifier list object, or null if not found
+ */
+export function findModifierList(
+  modifierListId: string,
+  relatedObjects: RelatedObjects,
+): SquareCatalogModifierList | null {
+  return indexRelatedObjects(relatedObjects).modifier_lists[modifierListId] ?? null;
+}
+
+/**
+ * Finds an item option by ID in the related objects.
+ *
+ * @param itemOptionId - Square item option ID
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
+ * @returns Item option object, or null if not found
+ */
+export function findItemOption(
+  itemOptionId: string,
+  relatedObjects: RelatedObjects,
+): SquareCatalogItemOption | null {
+  return indexRelatedObjects(relatedObjects).item_options[itemOptionId] ?? null;
+}
+
+/** Locale and fallback currency used to format prices for a location. */
+export interface PriceFormat {
+  locale: string;
+  /** Currency for prices Square omits (e.g. free modifiers); Square money keeps its own. */
+  currency: string;
+}
+
+export const DEFAULT_PRICE_FORMAT: PriceFormat = { locale: 'en-US', currency: 'USD' };
+
+/**
+ * Number of minor-unit digits for a currency (2 for USD/CAD/GBP, 0 for JPY).
+ *
+ * @param currency - ISO 4217 currency code
+ * @returns Digits between the major and minor unit
+ */
+export function currencyMinorDigits(currency: string): number {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+}
+
+/**
+ * Converts a Square Money amount in minor units (cents, pence) to major units.
+ *
+ * @param amount - Amount in minor units
+ * @param currency - ISO 4217 currency code
+ * @returns Amount in major units (e.g., 12.5)
+ */
+export function toMajorUnits(amount: number, currency: string): number {
+  return amount / 10 ** currencyMinorDigits(currency);
+}
+
+/**
+ * Formats a Square Money amount (in minor units) for display.
+ * Uses Intl.NumberFormat, so the symbol and separators follow the currency
+ * and locale (e.g. "CA$12.50" in en-US, "$12.50" in en-CA, "£12.50" in en-GB).
+ *
+ * @param amount - Amount in minor units
+ * @param currency - ISO 4217 currency code (default: USD)
+ * @param locale - BCP 47 locale of the location (default: en-US)
+ * @returns Formatted price string (e.g., "$12.50")
+ */
+export function formatPrice(amount: number, currency = 'USD', locale = 'en-US'): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(
+    toMajorUnits(amount, currency),
+  );
+}
+
+/**
+ * Resolves an item's modifier lists (add-ons like "extra cheese +$1.00").
+ *
+ * Selection rules come from the item's `modifier_list_info` overrides, falling
+ * back to the list's `selection_type` when Square reports them as unset (-1):
+ * - SINGLE: pick at most 1
+ * - MULTIPLE: pick up to every modifier in the list
+ * Disabled lists and lists missing from related_objects are skipped.
+ *
+ * @param item - Square CatalogItem
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
+ * @param priceFormat - Locale and fallback currency for modifier prices
+ * @returns Modifier lists in the order the item references them
+ */
+export function transformModifierLists(
+  item: SquareCatalogItem,
+  relatedObjects: RelatedObjects,
+  priceFormat: PriceFormat = DEFAULT_PRICE_FORMAT,
+): MenuItemModifierList[] {
+  const lists: MenuItemModifierList[] = [];
+
+  for (const info of item.item_data.modifier_list_info ?? []) {
+    if (info.enabled === false) continue;
+
+    const list = findModifierList(info.modifier_list_id, relatedObjects);
+    if (!list) {
+      console.warn(`[transformer] Modifier list ${info.modifier_list_id} referenced but not found`);
+      continue;
     }
+
+    const modifiers = [...(list.modifier_list_data.modifiers ?? [])]
+      .sort((a, b) => (a.modifier_data.ordinal ?? 0) - (b.modifier_data.ordinal ?? 0))
+      .map((m) => {
+        const amount = m.modifier_data.price_money?.amount ?? 0;
+        const currency = m.modifier_data.price_money?.currency ?? priceFormat.currency;
+        return {
+          id: m.id,
+          name: m.modifier_data.name,
+          priceDollars: toMajorUnits(amount, currency),
+          priceFormatted: formatPrice(amount, currency, priceFormat.locale),
+          price_amount: amount,
+          price_currency: currency,
+        };
+      });
+
+    const selectionType = list.modifier_list_data.selection_type ?? 'MULTIPLE';
+    const defaultMax = selectionType === 'SINGLE' ? 1 : modifiers.length;
+    const minSelected = Math.min(Math.max(info.min_selected_modifiers ?? -1, 0), modifiers.length);
+    const maxSelected =
+      info.max_selected_modifiers !== undefined && info.max_selected_modifiers >= 0
+        ? Math.min(info.max_selected_modifiers, modifiers.length)
+        : defaultMax;
+
+    lists.push({
+      id: list.id,
+      name: list.modifier_list_data.name,
+      selection_type: selectionType,
+      min_selected: minSelected,
+      max_selected: Math.max(maxSelected, minSelected),
+      modifiers,
+    });
   }
-  return null;
+
+  return lists;
 }
 
 /**
- * Formats a Square Money amount (in cents) as a USD string.
+ * Resolves an item's options (choices like "milk type") and their values.
+ * Each variation references one value per option via `item_option_values`.
  *
- * @param cents - Amount in cents
- * @returns Formatted price string (e.g., "$12.50")
+ * @param item - Square CatalogItem
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
+ * @returns Item options in the order the item references them
  */
-export function formatPrice(cents: number): string {
-  const dollars = cents / 100;
-  return `$${dollars.toFixed(2)}`;
+export function transformItemOptions(
+  item: SquareCatalogItem,
+  relatedObjects: RelatedObjects,
+): MenuItemOption[] {
+  const options: MenuItemOption[] = [];
+
+  for (const { item_option_id } of item.item_data.item_options ?? []) {
+    const option = findItemOption(item_option_id, relatedObjects);
+    if (!option) {
+      console.warn(`[transformer] Item option ${item_option_id} referenced but not found`);
+      continue;
+    }
+
+    options.push({
+      id: option.id,
+      name: option.item_option_data.display_name ?? option.item_option_data.name,
+      values: [...(option.item_option_data.values ?? [])]
+        .sort(
+          (a, b) =>
+            (a.item_option_value_data.ordinal ?? 0) - (b.item_option_value_data.ordinal ?? 0),
+        )
+        .map((v) => ({ id: v.id, name: v.item_option_value_data.name })),
+    });
+  }
+
+  return options;
 }
 
 /**
@@ -165,33 +366,64 @@ export function formatPrice(cents: number): string {
  * Joins related_objects to resolve:
  * - Category name (via category_id)
  * - Image URL (via image_ids[0])
- * - Variations with formatted prices
+ * - Variations with formatted prices (null for VARIABLE_PRICING or a missing price)
+ * - Modifier lists and item options (only set when the item has any)
+ *
+ * When a location is given, each variation uses that location's price
+ * override and carries `is_available` (see resolveVariationAtLocation).
+ * Prices are formatted in the money's own currency using the location's locale.
  *
  * @param item - Square CatalogItem
- * @param relatedObjects - Square API related_objects array
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
+ * @param locationId - Optional Square location ID to price the item for
+ * @param priceFormat - Locale and fallback currency of the location
  * @returns Transformed MenuItem
  */
 export function transformCatalogItem(
   item: SquareCatalogItem,
-  relatedObjects: SquareCatalogObject[],
+  relatedObjects: RelatedObjects,
+  locationId?: string,
+  priceFormat: PriceFormat = DEFAULT_PRICE_FORMAT,
 ): MenuItem {
+  const related = indexRelatedObjects(relatedObjects);
+
   // Resolve category name
   const categoryName = item.item_data.category_id
-    ? findCategoryName(item.item_data.category_id, relatedObjects) ?? 'Uncategorized'
+    ? findCategoryName(item.item_data.category_id, related) ?? 'Uncategorized'
     : 'Uncategorized';
 
   // Resolve image URL (use first image if multiple exist)
   const imageUrl = item.item_data.image_ids?.[0]
-    ? findImageUrl(item.item_data.image_ids[0], relatedObjects)
+    ? findImageUrl(item.item_data.image_ids[0], related)
     : null;
 
   // Transform variations
-  const variations: MenuItemVariation[] = (item.item_data.variations ?? []).map((v: SquareCatalogVariation) => ({
-    id: v.id,
-    name: v.item_variation_data.name,
-    priceDollars: (v.item_variation_data.price_money?.amount ?? 0) / 100,
-    priceFormatted: formatPrice(v.item_variation_data.price_money?.amount ?? 0),
-  }));
+  const variations: MenuItemVariation[] = (item.item_data.variations ?? []).map((v: SquareCatalogVariation) => {
+    const atLocation = locationId ? resolveVariationAtLocation(v, locationId) : null;
+    const pricingType = atLocation?.pricing_type ?? v.item_variation_data.pricing_type ?? 'FIXED_PRICING';
+    const priceMoney = atLocation ? atLocation.price_money : v.item_variation_data.price_money;
+
+    // Variable-priced or unpriced variations have no price rather than a fake $0.00
+    const money = pricingType === 'VARIABLE_PRICING' ? undefined : priceMoney;
+
+    return {
+      id: v.id,
+      name: v.item_variation_data.name,
+      pricing_type: pricingType,
+      priceDollars: money ? toMajorUnits(money.amount, money.currency) : null,
+      priceFormatted: money ? formatPrice(money.amount, money.currency, priceFormat.locale) : null,
+      price_amount: money?.amount ?? null,
+      price_currency: money?.currency ?? null,
+      ...(atLocation && { is_available: atLocation.is_available }),
+      ...(v.item_variation_data.item_option_values && {
+        option_value_ids: v.item_variation_data.item_option_values.map((o) => o.item_option_value_id),
+      }),
+    };
+  });
+
+  const modifierLists = transformModifierLists(item, related, priceFormat);
+  const options = transformItemOptions(item, related);
+  const dietaryTags = extractDietaryTags(item);
 
   return {
     id: item.id,
@@ -200,6 +432,146 @@ export function transformCatalogItem(
     category: categoryName,
     image_url: imageUrl ?? undefined,
     variations,
+    ...(modifierLists.length > 0 && { modifier_lists: modifierLists }),
+    ...(options.length > 0 && { options }),
+    ...(dietaryTags.length > 0 && { dietary_tags: dietaryTags }),
+  };
+}
+
+// ─── Dietary Tags ────────────────────────────────────────────
+
+/** Custom attribute names that hold a comma-separated list of dietary tags. */
+const DIETARY_LIST_ATTRIBUTES = new Set(['dietary', 'dietary_tags', 'diet']);
+
+/** Normalizes a label like "Gluten-Free" or "GLUTEN FREE" to snake_case ("gluten_free"). */
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/** Returns the DietaryTag a label names, if it names one. */
+function toDietaryTag(label: string): DietaryTag | null {
+  const normalized = normalizeLabel(label);
+  return (DIETARY_TAGS as readonly string[]).includes(normalized) ? (normalized as DietaryTag) : null;
+}
+
+/**
+ * Collects an item's dietary tags.
+ *
+ * Sources, in any combination:
+ * - Square's `food_and_beverage_details.dietary_preferences` item labels
+ * - BOOLEAN custom attributes named after a tag (e.g. "Vegan" = true)
+ * - A STRING custom attribute named "Dietary" with a comma-separated list
+ * Unrecognized labels are ignored.
+ *
+ * @param item - Square CatalogItem
+ * @returns Unique tags in DIETARY_TAGS order
+ */
+export function extractDietaryTags(item: SquareCatalogItem): DietaryTag[] {
+  const tags = new Set<DietaryTag>();
+  const add = (label: string | undefined) => {
+    const tag = label ? toDietaryTag(label) : null;
+    if (tag) tags.add(tag);
+  };
+
+  for (const pref of item.item_data.food_and_beverage_details?.dietary_preferences ?? []) {
+    add(pref.type === 'STANDARD' ? pref.standard_name : pref.custom_name);
+  }
+
+  for (const attribute of Object.values(item.custom_attribute_values ?? {})) {
+    const name = attribute.name ?? attribute.key ?? '';
+    if (attribute.boolean_value === true) {
+      add(name);
+    } else if (attribute.string_value && DIETARY_LIST_ATTRIBUTES.has(normalizeLabel(name))) {
+      attribute.string_value.split(',').forEach(add);
+    }
+  }
+
+  return DIETARY_TAGS.filter((tag) => tags.has(tag));
+}
+
+/**
+ * Checks whether a variation is sold at a specific location.
+ *
+ * Square variations carry their own location presence on top of the item's:
+ * - `present_at_all_locations` with an optional `absent_at_location_ids` exclusion list, OR
+ * - an explicit `present_at_location_ids` list
+ * Variations without any presence fields inherit the item's availability.
+ *
+ * @param variation - Square CatalogItemVariation
+ * @param locationId - Square location ID
+ * @returns True if the variation can be ordered at the location
+ */
+export function isVariationAvailableAtLocation(
+  variation: SquareCatalogVariation,
+  locationId: string,
+): boolean {
+  if (variation.present_at_all_locations === true) {
+    return !variation.absent_at_location_ids?.includes(locationId);
+  }
+  if (variation.present_at_location_ids) {
+    return variation.present_at_location_ids.includes(locationId);
+  }
+  return variation.present_at_all_locations === undefined;
+}
+
+/**
+ * Resolves a variation's price and availability at a specific location.
+ *
+ * A matching entry in `location_overrides` wins over the variation's base
+ * `pricing_type` and `price_money`; a `sold_out` override or missing presence at the location
+ * makes the variation unavailable.
+ *
+ * @param variation - Square CatalogItemVariation
+ * @param locationId - Square location ID
+ * @returns Effective pricing type, price (may be undefined) and availability
+ */
+export function resolveVariationAtLocation(
+  variation: SquareCatalogVariation,
+  locationId: string,
+): {
+  pricing_type: SquareCatalogVariation['item_variation_data']['pricing_type'];
+  price_money?: SquareMoney;
+  is_available: boolean;
+} {
+  const override = variation.item_variation_data.location_overrides?.find(
+    (o) => o.location_id === locationId,
+  );
+
+  return {
+    pricing_type: override?.pricing_type ?? variation.item_variation_data.pricing_type,
+    price_money: override?.price_money ?? variation.item_variation_data.price_money,
+    is_available:
+      isVariationAvailableAtLocation(variation, locationId) && override?.sold_out !== true,
+  };
+}
+
+/**
+ * Transforms a Square catalog item into a MenuItem scoped to one location,
+ * for the item detail endpoint.
+ *
+ * On top of transformCatalogItem this resolves every image URL (via image_ids),
+ * not just the first.
+ *
+ * @param item - Square CatalogItem
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
+ * @param locationId - Square location ID the item is viewed at
+ * @param priceFormat - Locale and fallback currency of the location
+ * @returns Transformed MenuItem with detail fields populated
+ */
+export function transformCatalogItemDetail(
+  item: SquareCatalogItem,
+  relatedObjects: RelatedObjects,
+  locationId: string,
+  priceFormat: PriceFormat = DEFAULT_PRICE_FORMAT,
+): MenuItem {
+  const related = indexRelatedObjects(relatedObjects);
+  const imageUrls = (item.item_data.image_ids ?? [])
+    .map((imageId) => findImageUrl(imageId, related))
+    .filter((url): url is string => url !== null);
+
+  return {
+    ...transformCatalogItem(item, related, locationId, priceFormat),
+    image_urls: imageUrls,
   };
 }
 
@@ -215,15 +587,24 @@ export function transformCatalogItem(
  * 4. Sort categories alphabetically
  *
  * @param items - Filtered Square catalog items (already scoped to location)
- * @param relatedObjects - Square API related_objects array
+ * @param relatedObjects - Square API related_objects array, or the same objects indexed by ID
+ * @param locationId - Optional Square location ID for per-location prices and availability
+ * @param priceFormat - Locale and fallback currency of the location
  * @returns Array of CategoryGroup objects sorted by category name
  */
 export function groupItemsByCategory(
   items: SquareCatalogItem[],
-  relatedObjects: SquareCatalogObject[],
+  relatedObjects: RelatedObjects,
+  locationId?: string,
+  priceFormat: PriceFormat = DEFAULT_PRICE_FORMAT,
 ): CategoryGroup[] {
+  // Index once, so every item's joins are lookups
+  const related = indexRelatedObjects(relatedObjects);
+
   // Transform all items
-  const menuItems = items.map((item) => transformCatalogItem(item, relatedObjects));
+  const menuItems = items.map((item) =>
+    transformCatalogItem(item, related, locationId, priceFormat),
+  );
 
   // Group by category
   const categoryMap = new Map<string, MenuItem[]>();
@@ -234,27 +615,20 @@ export function groupItemsByCategory(
     categoryMap.set(item.category, existing);
   }
 
+  // Category IDs by name (REGULAR_CATEGORY only, first match wins)
+  const categoryIds = new Map<string, string>();
+  for (const category of Object.values(related.categories)) {
+    const name = category.category_data.name;
+    if (isRegularCategory(category) && !categoryIds.has(name)) categoryIds.set(name, category.id);
+  }
+
   // Build CategoryGroup array with category IDs
   const categoryGroups: CategoryGroup[] = [];
 
   for (const [categoryName, items] of categoryMap.entries()) {
-    // Find category ID from related_objects (REGULAR_CATEGORY only)
-    let categoryId = '';
-    for (const obj of relatedObjects) {
-      if (obj.type === 'CATEGORY') {
-        const category = obj as SquareCatalogCategory;
-        // Filter for REGULAR_CATEGORY only to avoid duplicates from menu system
-        if ((!category.category_data.category_type || category.category_data.category_type === 'REGULAR_CATEGORY')
-            && category.category_data.name === categoryName) {
-          categoryId = obj.id;
-          break;
-        }
-      }
-    }
-
     categoryGroups.push({
       category: categoryName,
-      categoryId: categoryId || 'uncategorized',
+      categoryId: categoryIds.get(categoryName) ?? 'uncategorized',
       items,
     });
   }
@@ -1,4 +1,9 @@
-import type { SquareLocation, Location } from '@per-diem/shared-types';
+import type {
+  SquareLocation,
+  SquareBusinessHoursPeriod,
+  SquareDayOfWeek,
+  Location,
+} from '@per-diem/shared-types';
 
 /**
  * Transforms a Square Location API response to our simplified Location type.
@@ -7,10 +12,20 @@ import type { SquareLocation, Location } from '@per-diem/shared-types';
  * We extract only the fields needed by the frontend and use optional chaining
  * to handle missing fields gracefully.
  *
+ * Business hours are carried through as-is; open/closed status is evaluated
+ * at `now` in the location's timezone (see computeOpenStatus).
+ *
  * @param squareLocation - Raw location object from Square API
+ * @param now - Moment to evaluate open/closed status at (default: current time)
  * @returns Simplified location object
  */
-export function transformSquareLocation(squareLocation: SquareLocation): Location {
+export function transformSquareLocation(
+  squareLocation: SquareLocation,
+  now: Date = new Date(),
+): Location {
+  const timezone = squareLocation.timezone ?? 'UTC';
+  const businessHours = squareLocation.business_hours?.periods ?? [];
+
   return {
     id: squareLocation.id,
     name: squareLocation.name,
@@ -20,7 +35,135 @@ export function transformSquareLocation(squareLocation: SquareLocation): Locatio
       administrative_district_level_1: squareLocation.address?.administrative_district_level_1,
       postal_code: squareLocation.address?.postal_code,
     },
-    timezone: squareLocation.timezone ?? 'UTC',
+    timezone,
     status: squareLocation.status,
+    locale: resolveLocationLocale(squareLocation),
+    currency: squareLocation.currency,
+    business_hours: businessHours,
+    ...computeOpenStatus(businessHours, timezone, now),
+  };
+}
+
+/**
+ * Derives the BCP 47 locale used to format prices at a location.
+ *
+ * Prefers Square's `language_code` (e.g. "fr-CA"), then English in the
+ * location's country (e.g. "en-GB"), then "en-US". Malformed codes fall
+ * through to the next option.
+ *
+ * @param squareLocation - Raw location object from Square API
+ * @returns Canonical locale string
+ */
+export function resolveLocationLocale(squareLocation: SquareLocation): string {
+  const country = squareLocation.country ?? squareLocation.address?.country;
+  const candidates = [squareLocation.language_code, country ? `en-${country}` : undefined];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return Intl.getCanonicalLocales(candidate.replace('_', '-'))[0];
+    } catch {
+      console.warn(`[transformer] Ignoring invalid locale "${candidate}" for location ${squareLocation.id}`);
+    }
+  }
+
+  return 'en-US';
+}
+
+// ─── Business Hours ──────────────────────────────────────────
+
+const DAYS: SquareDayOfWeek[] = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+export interface OpenStatus {
+  is_open_now: boolean | null;
+  closes_at: string | null;
+  next_open_at: string | null;
+}
+
+/** Parses Square's "HH:MM[:SS]" local time into minutes after midnight. */
+function parseLocalTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/** Minutes since Sunday 00:00 of `now`, as seen on a wall clock in `timezone`. */
+function minuteOfWeek(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  const day = DAYS.indexOf(part('weekday').toUpperCase() as SquareDayOfWeek);
+  return day * MINUTES_PER_DAY + Number(part('hour')) * 60 + Number(part('minute'));
+}
+
+/**
+ * Evaluates business hours at a moment in the location's timezone.
+ *
+ * Periods are laid out on a week of minutes starting Sunday 00:00. A period
+ * whose end is not after its start runs past midnight into the next day.
+ * Back-to-back periods (e.g. 00:00-12:00 then 12:00-00:00) are treated as
+ * one opening when computing `closes_at`.
+ *
+ * @param periods - Square business hours periods
+ * @param timezone - IANA timezone of the location
+ * @param now - Moment to evaluate (default: current time)
+ * @returns Open flag plus the next close or open instant; all null without hours
+ */
+export function computeOpenStatus(
+  periods: SquareBusinessHoursPeriod[],
+  timezone: string,
+  now: Date = new Date(),
+): OpenStatus {
+  const closed: OpenStatus = { is_open_now: null, closes_at: null, next_open_at: null };
+  if (periods.length === 0) return closed;
+
+  let current: number;
+  try {
+    current = minuteOfWeek(now, timezone);
+  } catch {
+    console.warn(`[transformer] Invalid timezone "${timezone}", cannot evaluate business hours`);
+    return closed;
+  }
+
+  // Each period as [start, end) in minutes of week; wrap-around handled by the +week copy
+  const ranges = periods
+    .map((period) => {
+      const dayStart = DAYS.indexOf(period.day_of_week) * MINUTES_PER_DAY;
+      const start = dayStart + parseLocalTime(period.start_local_time);
+      let end = dayStart + parseLocalTime(period.end_local_time);
+      if (end <= start) end += MINUTES_PER_DAY;
+      return [start, end] as const;
+    })
+    .flatMap(([start, end]) => [
+      [start - MINUTES_PER_WEEK, end - MINUTES_PER_WEEK] as const,
+      [start, end] as const,
+      [start + MINUTES_PER_WEEK, end + MINUTES_PER_WEEK] as const,
+    ])
+    .sort((a, b) => a[0] - b[0]);
+
+  // Convert a minute of week back to an absolute instant relative to `now`
+  const at = (target: number) => {
+    const instant = new Date(now.getTime() + (target - current) * 60_000);
+    instant.setUTCSeconds(0, 0);
+    return instant.toISOString();
   };
+
+  const open = ranges.find(([start, end]) => start <= current && current < end);
+  if (open) {
+    let closesAt = open[1];
+    for (const [start, end] of ranges) {
+      if (start <= closesAt && end > closesAt) closesAt = end;
+    }
+    return { is_open_now: true, closes_at: at(closesAt), next_open_at: null };
+  }
+
+  const next = ranges.find(([start]) => start > current);
+  return { is_open_now: false, closes_at: null, next_open_at: next ? at(next[0]) : null };
 }
@@ -25,6 +25,10 @@ export class AppError extends Error {
     return new AppError(message, 400, code);
   }
 
+  static unauthorized(message: string, code = 'UNAUTHORIZED') {
+    return new AppError(message, 401, code);
+  }
+
   static notFound(message: string, code = 'NOT_FOUND') {
     return new AppError(message, 404, code);
   }
@@ -40,4 +44,8 @@ export class AppError extends Error {
   static upstream(message = 'Upstream service error', code = 'UPSTREAM_ERROR') {
     return new AppError(message, 502, code);
   }
+
+  static unavailable(message = 'Service temporarily unavailable', code = 'SERVICE_UNAVAILABLE') {
+    return new AppError(message, 503, code);
+  }
 }
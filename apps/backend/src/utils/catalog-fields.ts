@@ -0,0 +1,139 @@
+import type {
+  CatalogResponse,
+  CategoryGroup,
+  CompactCatalogResponse,
+  CompactMenuItem,
+  MenuItem,
+  MenuItemVariation,
+  SparseMenuItem,
+} from '@per-diem/shared-types';
+
+/** Item fields a `fields=` parameter may name; `id` is always returned. */
+export const ITEM_FIELDS = [
+  'name',
+  'description',
+  'category',
+  'image_url',
+  'image_urls',
+  'variations',
+  'modifier_lists',
+  'options',
+  'dietary_tags',
+  'in_stock',
+] as const satisfies readonly (keyof MenuItem)[];
+
+/** Variation fields, named `variations.<field>`; a variation's `id` is always returned. */
+export const VARIATION_FIELDS = [
+  'name',
+  'pricing_type',
+  'priceDollars',
+  'priceFormatted',
+  'price_amount',
+  'price_currency',
+  'is_available',
+  'option_value_ids',
+  'in_stock',
+  'quantity_remaining',
+] as const satisfies readonly (keyof MenuItemVariation)[];
+
+export type CatalogField =
+  | (typeof ITEM_FIELDS)[number]
+  | `variations.${(typeof VARIATION_FIELDS)[number]}`;
+
+/** Every value `fields=` accepts. */
+export const CATALOG_FIELDS = [
+  ...ITEM_FIELDS,
+  ...VARIATION_FIELDS.map((field) => `variations.${field}` as const),
+] as [CatalogField, ...CatalogField[]];
+
+/** Copies only the listed keys of an object. */
+function pick<T extends object>(source: T, keys: Set<string>): Partial<T> {
+  return Object.fromEntries(Object.entries(source).filter(([key]) => keys.has(key))) as Partial<T>;
+}
+
+/**
+ * Builds a function that trims items to a sparse fieldset.
+ * `variations` keeps whole variations; `variations.<field>` keeps only the
+ * named variation fields (and implies `variations`).
+ *
+ * @param fields - Validated `fields=` values; none means every field
+ * @returns Item mapper; returns items untouched when no fields are given
+ */
+export function itemFieldSelector(
+  fields: CatalogField[] | undefined,
+): (item: MenuItem) => SparseMenuItem {
+  if (!fields?.length) return (item) => item;
+
+  const itemKeys = new Set<string>(['id']);
+  const variationKeys = new Set<string>(['id']);
+  let wholeVariations = false;
+
+  for (const field of fields) {
+    if (field.startsWith('variations.')) {
+      itemKeys.add('variations');
+      variationKeys.add(field.slice('variations.'.length));
+    } else {
+      itemKeys.add(field);
+      if (field === 'variations') wholeVariations = true;
+    }
+  }
+
+  return (item) => {
+    const sparse: SparseMenuItem = { ...pick(item, itemKeys), id: item.id };
+    if (sparse.variations && !wholeVariations) {
+      sparse.variations = item.variations.map((v) => ({ ...pick(v, variationKeys), id: v.id }));
+    }
+    return sparse;
+  };
+}
+
+/**
+ * Trims every item of a grouped catalog to a sparse fieldset.
+ *
+ * @param groups - Catalog grouped by category
+ * @param fields - Validated `fields=` values; none means every field
+ */
+export function selectCatalogFields(
+  groups: CategoryGroup[],
+  fields: CatalogField[] | undefined,
+): CategoryGroup<SparseMenuItem>[] {
+  if (!fields?.length) return groups;
+
+  const select = itemFieldSelector(fields);
+  return groups.map((group) => ({ ...group, items: group.items.map(select) }));
+}
+
+/**
+ * Flattens a grouped catalog into the compact shape: each category is
+ * listed once, and items reference it by `category_id` instead of
+ * repeating its name.
+ *
+ * @param catalog - Catalog response, optionally already trimmed by `fields=`
+ * @returns The same catalog with one flat item list, in category order
+ */
+export function compactCatalog(
+  catalog: CatalogResponse<SparseMenuItem>,
+): CompactCatalogResponse {
+  const { categories: groups, ...meta } = catalog;
+
+  const items = groups.flatMap((group) =>
+    group.items.map((item) => {
+      const compact: CompactMenuItem & { category?: string } = {
+        ...item,
+        category_id: group.categoryId,
+      };
+      delete compact.category;
+      return compact;
+    }),
+  );
+
+  return {
+    categories: groups.map((group) => ({
+      id: group.categoryId,
+      name: group.category,
+      item_count: group.items.length,
+    })),
+    items,
+    ...meta,
+  };
+}
@@ -0,0 +1,52 @@
+import {
+  type CatalogFilters,
+  type CategoryGroup,
+  type MenuItem,
+  hasCatalogFilters,
+} from '@per-diem/shared-types';
+
+/**
+ * Checks an item against the price range and dietary filters.
+ * An item is in the price range when at least one priced variation is;
+ * variable-priced items are excluded once a price bound is set.
+ */
+function matchesItem(item: MenuItem, filters: CatalogFilters): boolean {
+  const { min_price, max_price, dietary } = filters;
+
+  if (min_price !== undefined || max_price !== undefined) {
+    const inRange = item.variations.some(
+      (v) =>
+        v.priceDollars !== null &&
+        (min_price === undefined || v.priceDollars >= min_price) &&
+        (max_price === undefined || v.priceDollars <= max_price),
+    );
+    if (!inRange) return false;
+  }
+
+  if (dietary && dietary.length > 0) {
+    const tags = item.dietary_tags ?? [];
+    if (!dietary.every((tag) => tags.includes(tag))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Applies catalog filters to an already-built catalog.
+ * Filtering runs on the cached per-location catalog, so every filter
+ * combination shares one cache entry.
+ *
+ * @param groups - Catalog grouped by category
+ * @param filters - Validated query filters
+ * @returns Filtered groups; categories left without items are dropped
+ */
+export function filterCatalog(groups: CategoryGroup[], filters: CatalogFilters): CategoryGroup[] {
+  if (!hasCatalogFilters(filters)) return groups;
+
+  const categoryIds = filters.category_ids?.length ? new Set(filters.category_ids) : null;
+
+  return groups
+    .filter((group) => !categoryIds || categoryIds.has(group.categoryId))
+    .map((group) => ({ ...group, items: group.items.filter((item) => matchesItem(item, filters)) }))
+    .filter((group) => group.items.length > 0);
+}
@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+import type { Request, Response } from 'express';
+
+export interface HttpCacheOptions {
+  /** Epoch ms when the cached data behind the response was loaded, for Last-Modified. */
+  lastModified?: number;
+  /** Seconds clients may reuse the response without revalidating. */
+  maxAgeSeconds: number;
+}
+
+/**
+ * ETag for a JSON body: a hash of its bytes before compression. Weak, since
+ * the compression middleware may send those bytes gzip-, brotli- or
+ * uncompressed under the same tag, and a strong ETag must differ per coding.
+ */
+export function weakEtag(body: string): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches an ETag. Uses the weak comparison
+ * RFC 9110 requires for If-None-Match, so a `W/` prefix added by a proxy
+ * doesn't defeat revalidation.
+ */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((tag) => opaque(tag) === opaque(etag));
+}
+
+/**
+ * Seconds a cached entry stays fresh, counted from when it was stored.
+ * 0 once it is stale, or when the store time is unknown.
+ */
+export function remainingMaxAge(
+  storedAt: number | undefined,
+  ttlSeconds: number,
+  now = Date.now(),
+): number {
+  if (storedAt === undefined) return 0;
+  return Math.max(0, Math.floor((storedAt + ttlSeconds * 1000 - now) / 1000));
+}
+
+/**
+ * Sends a JSON body with ETag, Last-Modified and Cache-Control headers, or
+ * an empty 304 Not Modified when the request's If-None-Match already holds
+ * the body's ETag.
+ *
+ * Only the ETag decides a 304. Bodies carry per-request overlays (e.g. stock
+ * levels) that change without the cached data changing, so If-Modified-Since
+ * can't tell whether the client's copy is current. The body is written with
+ * `res.end()` so Express's own freshness check, which does honour it, never runs.
+ */
+export function sendWithCacheHeaders(
+  req: Request,
+  res: Response,
+  body: unknown,
+  options: HttpCacheOptions,
+): void {
+  const json = JSON.stringify(body);
+  const etag = weakEtag(json);
+
+  res.set('ETag', etag);
+  res.set('Cache-Control', `public, max-age=${options.maxAgeSeconds}`);
+  if (options.lastModified !== undefined) {
+    res.set('Last-Modified', new Date(options.lastModified).toUTCString());
+  }
+
+  if (etagMatches(req.get('If-None-Match'), etag)) {
+    res.status(304).end();
+    return;
+  }
+
+  res.type('application/json').end(json);
+}
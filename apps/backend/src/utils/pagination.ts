@@ -1,53 +1,179 @@
+import { AppError } from './app-error.js';
+
+/** One page of a Square list/search response. */
+export interface SquarePage<T> {
+  objects?: T[];
+  cursor?: string;
+}
+
+/** Budget for following Square cursors. */
+export interface PaginationOptions {
+  /** Most pages to fetch before stopping. */
+  maxPages: number;
+  /** Total time allowed across all pages, in ms. */
+  timeoutMs: number;
+  /**
+   * What to do when either budget runs out with pages left:
+   * 'partial' returns what was fetched flagged `partial: true`,
+   * 'error' throws an AppError.
+   */
+  onLimit: 'partial' | 'error';
+  /** Request the next page as soon as its cursor is known, while the current one is processed. */
+  prefetch: boolean;
+}
+
+export const DEFAULT_PAGINATION_OPTIONS: PaginationOptions = {
+  maxPages: 50,
+  timeoutMs: 60_000,
+  onLimit: 'partial',
+  prefetch: true,
+};
+
+/** Result of following every cursor (or as many as the budget allowed). */
+export interface PaginatedResult<T> {
+  objects: T[];
+  /** True if pages were left unfetched because the page or time budget ran out. */
+  partial: boolean;
+  pages: number;
+}
+
+/** Thrown internally when the time budget runs out mid-page. */
+class PaginationTimeout extends Error {}
+
+/** Rejects with PaginationTimeout if `promise` hasn't settled by `deadline` (epoch ms). */
+async function beforeDeadline<T>(promise: Promise<T>, deadline: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PaginationTimeout()), Math.max(0, deadline - Date.now()));
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Streams pages from a cursor-paginated Square API.
+ *
+ * Yields each page as it arrives, so callers can process objects without
+ * waiting for the whole result. With `prefetch`, the request for the next
+ * page is already in flight while the caller handles the current one.
+ *
+ * When the page or time budget runs out with pages left, the generator
+ * throws an AppError (`onLimit: 'error'`) or stops early and returns
+ * `{ partial: true }`. Running out of time before the first page always
+ * throws: with nothing fetched there is no partial result to return.
+ *
+ * @param fetcher - Async function that accepts an optional cursor and returns
+ *                  objects array and optional next cursor
+ * @param options - Page budget, total timeout and limit behaviour
+ */
+export async function* paginateSquarePages<T>(
+  fetcher: (cursor?: string) => Promise<SquarePage<T>>,
+  options: PaginationOptions = DEFAULT_PAGINATION_OPTIONS,
+): AsyncGenerator<SquarePage<T>, { partial: boolean }> {
+  const deadline = Date.now() + options.timeoutMs;
+  let pageNumber = 0;
+
+  // A prefetched page may fail while the caller is busy (or after it stopped
+  // reading); mark it handled so that never surfaces as an unhandled rejection
+  const startFetch = (cursor?: string) => {
+    const page = fetcher(cursor);
+    page.catch(() => undefined);
+    return page;
+  };
+  let pending: Promise<SquarePage<T>> | null = startFetch();
+
+  const budgetExhausted = (reason: string) => {
+    console.warn(`[pagination] ${reason}, stopping with pages left`);
+    if (options.onLimit === 'error') {
+      throw AppError.upstream(`Square pagination stopped early: ${reason}`, 'PAGINATION_LIMIT');
+    }
+  };
+
+  while (pending) {
+    let page: SquarePage<T>;
+    try {
+      page = await beforeDeadline(pending, deadline);
+    } catch (error) {
+      if (!(error instanceof PaginationTimeout)) {
+        console.error(`[pagination] Error fetching page ${pageNumber + 1}:`, error);
+        throw error;
+      }
+      if (pageNumber === 0) {
+        console.error(`[pagination] Timed out after ${options.timeoutMs}ms before the first page`);
+        throw AppError.upstream(
+          'Square did not return the first page in time',
+          'PAGINATION_TIMEOUT',
+        );
+      }
+      budgetExhausted(`timed out after ${options.timeoutMs}ms`);
+      return { partial: true };
+    }
+    pageNumber++;
+
+    console.info(
+      `[pagination] Fetched page ${pageNumber} with ${page.objects?.length ?? 0} items${
+        page.cursor ? `, cursor: ${page.cursor.substring(0, 12)}...` : ' (final page)'
+      }`,
+    );
+
+    const cursor = page.cursor;
+    const withinBudget = pageNumber < options.maxPages;
+    pending = cursor && withinBudget && options.prefetch ? startFetch(cursor) : null;
+
+    yield page;
+
+    if (!cursor) return { partial: false };
+    if (!withinBudget) {
+      budgetExhausted(`reached max page limit (${options.maxPages})`);
+      return { partial: true };
+    }
+    pending ??= startFetch(cursor);
+  }
+  return { partial: false };
+}
+
 /**
  * Aggregates paginated responses from Square API into a single array.
  *
  * Square APIs return paginated results with a cursor field. This utility
- * automatically follows cursors until all pages are fetched.
+ * follows cursors (prefetching the next page, see paginateSquarePages)
+ * until all pages are fetched or the page/time budget runs out.
  *
  * @param fetcher - Async function that accepts an optional cursor and returns
  *                  objects array and optional next cursor
- * @returns All objects from all pages merged into a single array
+ * @param options - Page budget, total timeout and limit behaviour
+ * @returns All objects from all pages, and whether the budget cut the result short
  *
  * @example
- * const allItems = await aggregateSquarePages(async (cursor) => {
+ * const { objects, partial } = await aggregateSquarePages(async (cursor) => {
  *   const response = await squareClient.post('/catalog/search', { cursor });
  *   return { objects: response.data.objects, cursor: response.data.cursor };
  * });
  */
 export async function aggregateSquarePages<T>(
-  fetcher: (cursor?: string) => Promise<{ objects?: T[]; cursor?: string }>,
-): Promise<T[]> {
-  const allObjects: T[] = [];
-  let cursor: string | undefined;
-  let pageNumber = 1;
-  const MAX_PAGES = 10; // Safety limit to prevent infinite loops
-
-  do {
-    try {
-      const result = await fetcher(cursor);
-
-      const objects = result.objects ?? [];
-      allObjects.push(...objects);
+  fetcher: (cursor?: string) => Promise<SquarePage<T>>,
+  options: PaginationOptions = DEFAULT_PAGINATION_OPTIONS,
+): Promise<PaginatedResult<T>> {
+  const objects: T[] = [];
+  let pages = 0;
 
-      console.info(
-        `[pagination] Fetched page ${pageNumber} with ${objects.length} items${
-          result.cursor ? `, cursor: ${result.cursor.substring(0, 12)}...` : ' (final page)'
-        }`,
-      );
-
-      cursor = result.cursor;
-      pageNumber++;
-
-      if (pageNumber > MAX_PAGES) {
-        console.warn(`[pagination] Reached max page limit (${MAX_PAGES}), stopping`);
-        break;
-      }
-    } catch (error) {
-      console.error(`[pagination] Error fetching page ${pageNumber}:`, error);
-      throw error;
-    }
-  } while (cursor);
+  // Iterate by hand: for-await would drop the generator's { partial } return value
+  const pageStream = paginateSquarePages(fetcher, options);
+  let next = await pageStream.next();
+  while (!next.done) {
+    objects.push(...(next.value.objects ?? []));
+    pages++;
+    next = await pageStream.next();
+  }
 
-  console.info(`[pagination] Aggregation complete: ${allObjects.length} total items across ${pageNumber - 1} pages`);
-  return allObjects;
+  const { partial } = next.value;
+  console.info(
+    `[pagination] Aggregation ${partial ? 'stopped early' : 'complete'}: ` +
+      `${objects.length} total items across ${pages} pages`,
+  );
+  return { objects, partial, pages };
 }
@@ -0,0 +1,259 @@
+import type {
+  MenuItem,
+  CatalogSearchField,
+  CatalogSearchMatch,
+  CatalogSearchRange,
+  CatalogSearchResult,
+} from '@per-diem/shared-types';
+
+// ─── Index Model ─────────────────────────────────────────────
+
+/** Score multiplier per field: a hit in the name outranks one in the description. */
+export const FIELD_BOOSTS: Record<CatalogSearchField, number> = {
+  name: 3,
+  category: 2,
+  variation: 1.5,
+  description: 1,
+};
+
+/** Weight of each kind of term match, before field boosts are applied. */
+const MATCH_WEIGHTS = { exact: 1, prefix: 0.8, fuzzy: 0.6 } as const;
+
+/** Prefix matching only kicks in once the query term is this long. */
+const MIN_PREFIX_LENGTH = 2;
+
+/** One searchable string of an item (its name, category, a variation name, ...). */
+interface IndexedText {
+  field: CatalogSearchField;
+  value: string;
+}
+
+/** One occurrence of a term in a document. */
+interface Posting {
+  doc: number;
+  text: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Inverted index over the menu items of one location.
+ * Built once per catalog snapshot and kept in memory, never serialized.
+ */
+export interface SearchIndex {
+  items: MenuItem[];
+  texts: IndexedText[][];
+  postings: Map<string, Posting[]>;
+  /** All indexed terms, sorted, so prefix lookups can binary search. */
+  terms: string[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits text into lowercase, accent-folded terms with their character
+ * offsets in the original string (used for highlighting).
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      term: match[0].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase(),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Builds an inverted index over menu items.
+ * Indexes item name, category, variation names and description.
+ *
+ * @param items - Transformed menu items for one location
+ * @returns Index ready for searchIndex()
+ */
+export function buildSearchIndex(items: MenuItem[]): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+
+  const texts = items.map((item, doc) => {
+    const docTexts: IndexedText[] = [
+      { field: 'name', value: item.name },
+      { field: 'category', value: item.category },
+      ...item.variations.map((v) => ({ field: 'variation' as const, value: v.name })),
+      ...(item.description ? [{ field: 'description' as const, value: item.description }] : []),
+    ];
+
+    docTexts.forEach(({ value }, text) => {
+      for (const { term, start, end } of tokenize(value)) {
+        const list = postings.get(term) ?? [];
+        list.push({ doc, text, start, end });
+        postings.set(term, list);
+      }
+    });
+
+    return docTexts;
+  });
+
+  return { items, texts, postings, terms: [...postings.keys()].sort() };
+}
+
+// ─── Matching ────────────────────────────────────────────────
+
+/** Number of typos tolerated for a query term of a given length. */
+function maxEditsFor(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions), abandoning early once it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+
+  return prev[b.length];
+}
+
+/** Returns index terms matching a query term, with the weight of each match. */
+function expandTerm(index: SearchIndex, queryTerm: string): Map<string, number> {
+  const matches = new Map<string, number>();
+
+  if (index.postings.has(queryTerm)) {
+    matches.set(queryTerm, MATCH_WEIGHTS.exact);
+  }
+
+  if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+    // Binary search to the first term >= queryTerm, then walk while the prefix holds
+    let lo = 0;
+    let hi = index.terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (index.terms[mid] < queryTerm) lo = mid + 1;
+      else hi = mid;
+    }
+    for (let i = lo; i < index.terms.length && index.terms[i].startsWith(queryTerm); i++) {
+      if (!matches.has(index.terms[i])) matches.set(index.terms[i], MATCH_WEIGHTS.prefix);
+    }
+  }
+
+  const maxEdits = maxEditsFor(queryTerm.length);
+  if (maxEdits > 0) {
+    for (const term of index.terms) {
+      if (matches.has(term)) continue;
+      if (editDistance(queryTerm, term, maxEdits) <= maxEdits) {
+        matches.set(term, MATCH_WEIGHTS.fuzzy);
+      }
+    }
+  }
+
+  return matches;
+}
+
+/** Sorts and merges overlapping or touching ranges. */
+function mergeRanges(ranges: CatalogSearchRange[]): CatalogSearchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: CatalogSearchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Searches the index and returns ranked results with highlight ranges.
+ *
+ * Each query term is matched exactly, as a prefix, or within a small edit
+ * distance. A document scores the best (match weight × field boost) per
+ * query term, summed across terms and scaled by the share of query terms
+ * it matched, so items matching every word rank above partial matches.
+ *
+ * @param index - Index from buildSearchIndex()
+ * @param query - Free-text user query
+ * @param limit - Maximum number of results
+ * @returns Results sorted by score (desc), then item name
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  limit: number,
+): CatalogSearchResult[] {
+  const queryTerms = [...new Set(tokenize(query).map((t) => t.term))];
+  if (queryTerms.length === 0) return [];
+
+  // doc → per-query-term best score
+  const termScores = new Map<number, number[]>();
+  // doc → text index → highlight ranges
+  const highlights = new Map<number, Map<number, CatalogSearchRange[]>>();
+
+  queryTerms.forEach((queryTerm, q) => {
+    for (const [term, weight] of expandTerm(index, queryTerm)) {
+      for (const posting of index.postings.get(term) ?? []) {
+        const field = index.texts[posting.doc][posting.text].field;
+        const score = weight * FIELD_BOOSTS[field];
+
+        const scores = termScores.get(posting.doc) ?? new Array<number>(queryTerms.length).fill(0);
+        scores[q] = Math.max(scores[q], score);
+        termScores.set(posting.doc, scores);
+
+        const docHighlights = highlights.get(posting.doc) ?? new Map();
+        const ranges = docHighlights.get(posting.text) ?? [];
+        ranges.push({ start: posting.start, end: posting.end });
+        docHighlights.set(posting.text, ranges);
+        highlights.set(posting.doc, docHighlights);
+      }
+    }
+  });
+
+  const results: CatalogSearchResult[] = [];
+  for (const [doc, scores] of termScores) {
+    const matched = scores.filter((s) => s > 0).length;
+    const total = scores.reduce((sum, s) => sum + s, 0) * (matched / queryTerms.length);
+
+    const matches: CatalogSearchMatch[] = [...(highlights.get(doc) ?? new Map())]
+      .sort(([a], [b]) => a - b)
+      .map(([text, ranges]) => ({
+        field: index.texts[doc][text].field,
+        text: index.texts[doc][text].value,
+        ranges: mergeRanges(ranges),
+      }));
+
+    results.push({ item: index.items[doc], score: Math.round(total * 1000) / 1000, matches });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name))
+    .slice(0, limit);
+}
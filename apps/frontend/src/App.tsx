@@ -2,6 +2,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Header } from './components/Header';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { MenuGrid } from './features/MenuGrid';
+import { FilterPanel } from './features/FilterPanel';
 
 // Create a client
 const queryClient = new QueryClient({
@@ -22,6 +23,7 @@ function App() {
           <Header />
 
           <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8" role="main">
+            <FilterPanel />
             <MenuGrid />
           </main>
 
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { FilterPanel } from '../features/FilterPanel';
+import { parseCatalogFilters, serializeCatalogFilters } from '../hooks/useCatalogFilters';
+import { useAppStore } from '../store/app-store';
+import { server } from './mocks/server';
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+beforeEach(() => {
+  window.history.replaceState(null, '', '/');
+  useAppStore.setState({ selectedLocationId: 'LOC1', searchQuery: '' });
+});
+
+function renderWithProviders(ui: React.ReactElement) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+
+  return render(<QueryClientProvider client={queryClient}>{ui}</QueryClientProvider>);
+}
+
+describe('FilterPanel', () => {
+  it('renders nothing without a selected location', () => {
+    useAppStore.setState({ selectedLocationId: null });
+    const { container } = renderWithProviders(<FilterPanel />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('keeps dietary and category filters in the URL', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<FilterPanel />);
+
+    await user.click(screen.getByRole('button', { name: 'Vegetarian' }));
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Pizza' })).toBeInTheDocument();
+    });
+    await user.click(screen.getByRole('button', { name: 'Pizza' }));
+
+    const params = new URLSearchParams(window.location.search);
+    expect(params.get('dietary')).toBe('vegetarian');
+    expect(params.get('category_ids')).toBe('CAT_PIZZA');
+    expect(screen.getByRole('button', { name: 'Vegetarian' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('commits price bounds on blur and clears all filters', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<FilterPanel />);
+
+    await user.type(screen.getByLabelText('Max price'), '10');
+    await user.tab();
+    expect(new URLSearchParams(window.location.search).get('max_price')).toBe('10');
+
+    await user.click(screen.getByRole('button', { name: /clear filters/i }));
+    expect(window.location.search).toBe('');
+  });
+
+  it('swaps a minimum price above the maximum', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<FilterPanel />);
+
+    await user.type(screen.getByLabelText('Max price'), '5');
+    await user.type(screen.getByLabelText('Min price'), '12');
+    await user.tab();
+
+    const params = new URLSearchParams(window.location.search);
+    expect(params.get('min_price')).toBe('5');
+    expect(params.get('max_price')).toBe('12');
+    expect(screen.getByLabelText('Min price')).toHaveValue(5);
+    expect(parseCatalogFilters('?min_price=20&max_price=10')).toEqual({
+      min_price: 10,
+      max_price: 20,
+    });
+  });
+
+  it('round-trips filters through the query string', () => {
+    const filters = { min_price: 5, max_price: 12.5, category_ids: ['A', 'B'], dietary: ['vegan' as const] };
+    const search = serializeCatalogFilters(filters, '?utm=1');
+
+    expect(new URLSearchParams(search).get('utm')).toBe('1');
+    expect(parseCatalogFilters(search)).toEqual(filters);
+    expect(parseCatalogFilters('?dietary=vegan,unknown&min_price=abc')).toEqual({ dietary: ['vegan'] });
+  });
+});
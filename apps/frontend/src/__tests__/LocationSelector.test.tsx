@@ -66,4 +66,14 @@ describe('LocationSelector', () => {
       expect(screen.getByText('Select a location...')).toBeInTheDocument();
     });
   });
+
+  it('shows open/closed status when business hours are known', async () => {
+    renderWithProviders(<LocationSelector />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/Downtown Restaurant.*Open until/)).toBeInTheDocument();
+    });
+
+    expect(screen.getByText(/Uptown Cafe/).textContent).not.toMatch(/Open|Closed/);
+  });
 });
@@ -14,14 +14,20 @@ const mockItem: MenuItemType = {
     {
       id: 'VAR1',
       name: 'Small',
+      pricing_type: 'FIXED_PRICING',
       priceDollars: 12.5,
       priceFormatted: '$12.50',
+      price_amount: 1250,
+      price_currency: 'USD',
     },
     {
       id: 'VAR2',
       name: 'Large',
+      pricing_type: 'FIXED_PRICING',
       priceDollars: 18.5,
       priceFormatted: '$18.50',
+      price_amount: 1850,
+      price_currency: 'USD',
     },
   ],
 };
@@ -74,4 +80,74 @@ describe('MenuItem', () => {
     // SVG placeholder should be rendered
     expect(screen.queryByRole('img')).not.toBeInTheDocument();
   });
+
+  it('renders "Market price" for variable-priced variations', () => {
+    const marketItem: MenuItemType = {
+      ...mockItem,
+      variations: [
+        {
+          id: 'VAR_FISH',
+          name: 'Whole',
+          pricing_type: 'VARIABLE_PRICING',
+          priceDollars: null,
+          priceFormatted: null,
+          price_amount: null,
+          price_currency: null,
+        },
+      ],
+    };
+    render(<MenuItem item={marketItem} />);
+    expect(screen.getByText('Market price')).toBeInTheDocument();
+    expect(screen.queryByText('$0.00')).not.toBeInTheDocument();
+  });
+
+  it('renders "Ask staff" for fixed-price variations without a price', () => {
+    const unpricedItem: MenuItemType = {
+      ...mockItem,
+      variations: [
+        {
+          id: 'VAR_SPECIAL',
+          name: 'Special',
+          pricing_type: 'FIXED_PRICING',
+          priceDollars: null,
+          priceFormatted: null,
+          price_amount: null,
+          price_currency: null,
+        },
+      ],
+    };
+    render(<MenuItem item={unpricedItem} />);
+    expect(screen.getByText('Ask staff')).toBeInTheDocument();
+  });
+
+  it('shows a "Sold out" badge when the item is out of stock', () => {
+    const soldOutItem: MenuItemType = {
+      ...mockItem,
+      in_stock: false,
+      variations: mockItem.variations.map((variation) => ({
+        ...variation,
+        in_stock: false,
+        quantity_remaining: 0,
+      })),
+    };
+    render(<MenuItem item={soldOutItem} />);
+    expect(screen.getByText('Sold out')).toBeInTheDocument();
+  });
+
+  it('disables sold-out options but keeps the rest orderable', () => {
+    const partlySoldOut: MenuItemType = {
+      ...mockItem,
+      in_stock: true,
+      variations: [
+        { ...mockItem.variations[0], in_stock: false, quantity_remaining: 0 },
+        { ...mockItem.variations[1], in_stock: true, quantity_remaining: 5 },
+      ],
+    };
+    render(<MenuItem item={partlySoldOut} />);
+
+    const [small, large] = screen.getAllByTestId('menu-item-variation');
+    expect(small).toHaveAttribute('aria-disabled', 'true');
+    expect(large).not.toHaveAttribute('aria-disabled');
+    expect(screen.queryByText('Sold out')).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { fetchCategories } from '../services/api';
+import { mockCategories } from './mocks/data';
+import { server } from './mocks/server';
+
+const API_BASE_URL = 'http://localhost:3001/api';
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+describe('conditional GETs', () => {
+  it('revalidates with the last ETag and reuses the body on 304', async () => {
+    const ifNoneMatch: (string | null)[] = [];
+    server.use(
+      http.get(`${API_BASE_URL}/catalog/categories`, ({ request }) => {
+        ifNoneMatch.push(request.headers.get('If-None-Match'));
+        if (request.headers.get('If-None-Match') === '"v1"') {
+          return new HttpResponse(null, { status: 304, headers: { ETag: '"v1"' } });
+        }
+        return HttpResponse.json({ categories: mockCategories }, { headers: { ETag: '"v1"' } });
+      }),
+    );
+
+    expect(await fetchCategories('LOC1')).toEqual(mockCategories);
+    expect(await fetchCategories('LOC1')).toEqual(mockCategories);
+    expect(ifNoneMatch).toEqual([null, '"v1"']);
+  });
+
+  it('keeps ETags per URL', async () => {
+    const ifNoneMatch: (string | null)[] = [];
+    server.use(
+      http.get(`${API_BASE_URL}/catalog/categories`, ({ request }) => {
+        ifNoneMatch.push(request.headers.get('If-None-Match'));
+        return HttpResponse.json({ categories: [] }, { headers: { ETag: '"loc2"' } });
+      }),
+    );
+
+    expect(await fetchCategories('LOC2')).toEqual([]);
+    expect(ifNoneMatch).toEqual([null]);
+  });
+});
@@ -12,6 +12,14 @@ export const mockLocations: Location[] = [
     },
     timezone: 'America/Los_Angeles',
     status: 'ACTIVE',
+    locale: 'en-US',
+    currency: 'USD',
+    business_hours: [
+      { day_of_week: 'MON', start_local_time: '07:00', end_local_time: '21:00' },
+    ],
+    is_open_now: true,
+    closes_at: '2030-01-01T05:00:00.000Z',
+    next_open_at: null,
   },
   {
     id: 'LOC2',
@@ -24,6 +32,12 @@ export const mockLocations: Location[] = [
     },
     timezone: 'America/Los_Angeles',
     status: 'ACTIVE',
+    locale: 'en-US',
+    currency: 'USD',
+    business_hours: [],
+    is_open_now: null,
+    closes_at: null,
+    next_open_at: null,
   },
 ];
 
@@ -55,14 +69,20 @@ export const mockCatalog: CategoryGroup[] = [
           {
             id: 'VAR1',
             name: 'Small',
+            pricing_type: 'FIXED_PRICING',
             priceDollars: 12.5,
             priceFormatted: '$12.50',
+            price_amount: 1250,
+            price_currency: 'USD',
           },
           {
             id: 'VAR2',
             name: 'Large',
+            pricing_type: 'FIXED_PRICING',
             priceDollars: 18.5,
             priceFormatted: '$18.50',
+            price_amount: 1850,
+            price_currency: 'USD',
           },
         ],
       },
@@ -75,8 +95,11 @@ export const mockCatalog: CategoryGroup[] = [
           {
             id: 'VAR3',
             name: 'Regular',
+            pricing_type: 'FIXED_PRICING',
             priceDollars: 14.99,
             priceFormatted: '$14.99',
+            price_amount: 1499,
+            price_currency: 'USD',
           },
         ],
       },
@@ -96,8 +119,11 @@ export const mockCatalog: CategoryGroup[] = [
           {
             id: 'VAR4',
             name: 'Regular',
+            pricing_type: 'FIXED_PRICING',
             priceDollars: 9.95,
             priceFormatted: '$9.95',
+            price_amount: 995,
+            price_currency: 'USD',
           },
         ],
       },
@@ -38,6 +38,19 @@ export const handlers = [
 
     return HttpResponse.json({ categories: mockCatalog });
   }),
+
+  // GET /api/catalog/search
+  http.get(`${API_BASE_URL}/catalog/search`, ({ request }) => {
+    const url = new URL(request.url);
+    const query = url.searchParams.get('q')?.toLowerCase() ?? '';
+
+    const results = mockCatalog
+      .flatMap((group) => group.items)
+      .filter((item) => item.name.toLowerCase().includes(query))
+      .map((item) => ({ item, score: 3, matches: [] }));
+
+    return HttpResponse.json({ query, results });
+  }),
 ];
 
 // Error handlers for testing error states
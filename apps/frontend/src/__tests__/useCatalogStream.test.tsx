@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useCatalogStream } from '../hooks/useCatalogStream';
+
+// Minimal stand-in for the browser EventSource, which jsdom doesn't provide
+class FakeEventSource extends EventTarget {
+  static instances: FakeEventSource[] = [];
+  closed = false;
+
+  constructor(public url: string) {
+    super();
+    FakeEventSource.instances.push(this);
+  }
+
+  emit(type: string, data?: unknown) {
+    this.dispatchEvent(new MessageEvent(type, { data: JSON.stringify(data) }));
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+function renderStream(locationId: string | null) {
+  const queryClient = new QueryClient();
+  const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+  const hook = renderHook(() => useCatalogStream(locationId), {
+    wrapper: ({ children }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    ),
+  });
+  const invalidatedKeys = () => invalidate.mock.calls.map(([filters]) => filters?.queryKey);
+  return { ...hook, invalidatedKeys };
+}
+
+describe('useCatalogStream', () => {
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('subscribes to the selected location', () => {
+    renderStream('LOC1');
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(FakeEventSource.instances[0].url).toContain('/api/catalog/stream?location_id=LOC1');
+  });
+
+  it('does not connect without a location', () => {
+    renderStream(null);
+
+    expect(FakeEventSource.instances).toHaveLength(0);
+  });
+
+  it('invalidates the catalog when a change arrives', () => {
+    const { invalidatedKeys } = renderStream('LOC1');
+
+    FakeEventSource.instances[0].emit('catalog.changed', {
+      type: 'catalog',
+      location_id: 'LOC1',
+      event_id: 'evt_1',
+      changed_at: '2026-01-01T00:00:00Z',
+    });
+
+    expect(invalidatedKeys()).toEqual([
+      ['catalog', 'LOC1'],
+      ['catalog-search', 'LOC1'],
+      ['categories', 'LOC1'],
+    ]);
+  });
+
+  it('leaves categories alone for stock changes', () => {
+    const { invalidatedKeys } = renderStream('LOC1');
+
+    FakeEventSource.instances[0].emit('catalog.changed', { type: 'inventory' });
+
+    expect(invalidatedKeys()).not.toContainEqual(['categories', 'LOC1']);
+    expect(invalidatedKeys()).toContainEqual(['catalog', 'LOC1']);
+  });
+
+  it('invalidates after reconnecting, but not on the first connection', () => {
+    const { invalidatedKeys } = renderStream('LOC1');
+    const source = FakeEventSource.instances[0];
+
+    source.emit('open');
+    expect(invalidatedKeys()).toHaveLength(0);
+
+    source.emit('open');
+    expect(invalidatedKeys()).toContainEqual(['catalog', 'LOC1']);
+  });
+
+  it('closes the stream on unmount', () => {
+    const { unmount } = renderStream('LOC1');
+
+    unmount();
+
+    expect(FakeEventSource.instances[0].closed).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import type { ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { type DietaryTag, DIETARY_TAGS, hasCatalogFilters } from '@per-diem/shared-types';
+import { fetchCategories } from '../services/api';
+import { useAppStore } from '../store/app-store';
+import { useCatalogFilters } from '../hooks/useCatalogFilters';
+
+const DIETARY_LABELS: Record<DietaryTag, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  gluten_free: 'Gluten-free',
+  dairy_free: 'Dairy-free',
+  nut_free: 'Nut-free',
+  halal: 'Halal',
+  kosher: 'Kosher',
+};
+
+/** Adds the value to the list, or removes it if already present */
+function toggle<T>(list: T[] | undefined, value: T): T[] {
+  const current = list ?? [];
+  return current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+}
+
+function parsePriceInput(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+interface FilterChipProps {
+  active: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+function FilterChip({ active, onClick, children }: FilterChipProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`
+        px-3 py-1.5 text-sm rounded-full border
+        transition-colors duration-200
+        focus:outline-none focus:ring-2 focus:ring-blue-500
+        min-h-[36px]
+        ${
+          active
+            ? 'bg-blue-600 border-blue-600 text-white'
+            : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+        }
+      `}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function FilterPanel() {
+  const selectedLocationId = useAppStore((state) => state.selectedLocationId);
+  const searchQuery = useAppStore((state) => state.searchQuery);
+  const { filters, setFilters } = useCatalogFilters();
+
+  const { data: categories } = useQuery({
+    queryKey: ['categories', selectedLocationId],
+    queryFn: () => fetchCategories(selectedLocationId!),
+    enabled: !!selectedLocationId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Search results are ranked across the whole menu, so filters only apply when browsing
+  if (!selectedLocationId || searchQuery) {
+    return null;
+  }
+
+  // Price inputs commit on blur/Enter so typing doesn't refetch on every keystroke;
+  // a minimum above the maximum is swapped when committed (see orderPriceRange)
+  const priceInput = (key: 'min_price' | 'max_price', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      {label}
+      <input
+        key={`${key}-${filters[key] ?? ''}`}
+        type="number"
+        min={0}
+        step="0.01"
+        inputMode="decimal"
+        defaultValue={filters[key] ?? ''}
+        onBlur={(e) => setFilters({ ...filters, [key]: parsePriceInput(e.target.value) })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        className="
+          w-24 px-3 py-1.5
+          bg-white dark:bg-gray-800
+          border border-gray-300 dark:border-gray-600
+          rounded-lg shadow-sm
+          text-gray-900 dark:text-gray-100
+          focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
+          min-h-[36px]
+        "
+      />
+    </label>
+  );
+
+  return (
+    <section aria-label="Menu filters" className="mb-8 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        {priceInput('min_price', 'Min price')}
+        {priceInput('max_price', 'Max price')}
+        {hasCatalogFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => setFilters({})}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Dietary">
+        {DIETARY_TAGS.map((tag) => (
+          <FilterChip
+            key={tag}
+            active={!!filters.dietary?.includes(tag)}
+            onClick={() => setFilters({ ...filters, dietary: toggle(filters.dietary, tag) })}
+          >
+            {DIETARY_LABELS[tag]}
+          </FilterChip>
+        ))}
+      </div>
+
+      {categories && categories.length > 0 && (
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Categories">
+          {categories.map((category) => (
+            <FilterChip
+              key={category.id}
+              active={!!filters.category_ids?.includes(category.id)}
+              onClick={() =>
+                setFilters({ ...filters, category_ids: toggle(filters.category_ids, category.id) })
+              }
+            >
+              {category.name}
+            </FilterChip>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
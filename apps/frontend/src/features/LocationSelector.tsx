@@ -1,10 +1,44 @@
 import { useQuery } from '@tanstack/react-query';
+import type { Location } from '@per-diem/shared-types';
 import { fetchLocations } from '../services/api';
 import { useAppStore } from '../store/app-store';
 import { Skeleton } from '../components/Skeleton';
 import { ErrorMessage } from '../components/ErrorMessage';
 import { EmptyState } from '../components/EmptyState';
 
+/**
+ * Formats an ISO instant in the location's own timezone, adding the weekday
+ * when it falls on a different local day than now.
+ */
+function formatLocalTime(iso: string, location: Location): string {
+  const date = new Date(iso);
+  const dayKey = (d: Date) =>
+    d.toLocaleDateString('en-CA', { timeZone: location.timezone });
+  const sameDay = dayKey(date) === dayKey(new Date());
+
+  return date.toLocaleTimeString(location.locale, {
+    timeZone: location.timezone,
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(sameDay ? {} : { weekday: 'short' }),
+  });
+}
+
+/** Short open/closed label for a location, or null when hours are unknown. */
+function openStatusLabel(location: Location): string | null {
+  if (location.is_open_now === null) return null;
+
+  if (location.is_open_now) {
+    return location.closes_at
+      ? `Open until ${formatLocalTime(location.closes_at, location)}`
+      : 'Open';
+  }
+
+  return location.next_open_at
+    ? `Closed · opens ${formatLocalTime(location.next_open_at, location)}`
+    : 'Closed';
+}
+
 export function LocationSelector() {
   const selectedLocationId = useAppStore((state) => state.selectedLocationId);
   const setSelectedLocationId = useAppStore((state) => state.setSelectedLocationId);
@@ -70,12 +104,16 @@ export function LocationSelector() {
         aria-label="Select restaurant location"
       >
         <option value="">Select a location...</option>
-        {locations.map((location) => (
-          <option key={location.id} value={location.id}>
-            {location.name}
-            {location.address?.locality && ` - ${location.address.locality}`}
-          </option>
-        ))}
+        {locations.map((location) => {
+          const status = openStatusLabel(location);
+          return (
+            <option key={location.id} value={location.id}>
+              {location.name}
+              {location.address?.locality && ` - ${location.address.locality}`}
+              {status && ` (${status})`}
+            </option>
+          );
+        })}
       </select>
     </div>
   );
@@ -1,9 +1,11 @@
 import { useRef, useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import type { CategoryGroup } from '@per-diem/shared-types';
-import { fetchCatalog } from '../services/api';
+import { type CategoryGroup, hasCatalogFilters } from '@per-diem/shared-types';
+import { fetchCatalog, searchCatalog } from '../services/api';
 import { useAppStore } from '../store/app-store';
 import { useDebounce } from '../hooks/useDebounce';
+import { useCatalogStream } from '../hooks/useCatalogStream';
+import { useCatalogFilters } from '../hooks/useCatalogFilters';
 import { MenuItem } from './MenuItem';
 import { CategoryNav } from './CategoryNav';
 import { SkeletonCard } from '../components/Skeleton';
@@ -14,6 +16,10 @@ export function MenuGrid() {
   const selectedLocationId = useAppStore((state) => state.selectedLocationId);
   const searchQuery = useAppStore((state) => state.searchQuery);
   const debouncedSearch = useDebounce(searchQuery, 300);
+  const { filters, setFilters } = useCatalogFilters();
+
+  // Refetch the menu as soon as the backend reports a change
+  useCatalogStream(selectedLocationId);
 
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const categoryRefs = useRef<Map<string, HTMLElement>>(new Map());
@@ -25,27 +31,39 @@ export function MenuGrid() {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['catalog', selectedLocationId],
-    queryFn: () => fetchCatalog(selectedLocationId!),
+    queryKey: ['catalog', selectedLocationId, filters],
+    queryFn: () => fetchCatalog(selectedLocationId!, filters),
     enabled: !!selectedLocationId,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
-  // Filter items based on search query
-  const filteredCategories = categories
-    ?.map((category) => ({
-      ...category,
-      items: category.items.filter((item) => {
-        if (!debouncedSearch) return true;
-        const query = debouncedSearch.toLowerCase();
-        return (
-          item.name.toLowerCase().includes(query) ||
-          item.description?.toLowerCase().includes(query) ||
-          false
-        );
-      }),
-    }))
-    .filter((category) => category.items.length > 0);
+  // Ranked server-side search replaces the category view while a query is active
+  const {
+    data: searchResults,
+    isLoading: isSearching,
+    isError: isSearchError,
+    error: searchError,
+    refetch: refetchSearch,
+  } = useQuery({
+    queryKey: ['catalog-search', selectedLocationId, debouncedSearch],
+    queryFn: () => searchCatalog(selectedLocationId!, debouncedSearch),
+    enabled: !!selectedLocationId && !!debouncedSearch,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const searchGroups: CategoryGroup[] | undefined =
+    searchResults &&
+    (searchResults.length > 0
+      ? [
+          {
+            category: 'Search results',
+            categoryId: 'search-results',
+            items: searchResults.map((result) => result.item),
+          },
+        ]
+      : []);
+
+  const filteredCategories = debouncedSearch ? searchGroups : categories;
 
   // Scroll spy: observe category sections and update active category
   useEffect(() => {
@@ -105,7 +123,7 @@ export function MenuGrid() {
     );
   }
 
-  if (isLoading) {
+  if (isLoading || (debouncedSearch && isSearching)) {
     return (
       <div className="space-y-8">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -127,6 +145,16 @@ export function MenuGrid() {
     );
   }
 
+  if (debouncedSearch && isSearchError) {
+    return (
+      <ErrorMessage
+        title="Search failed"
+        message={searchError instanceof Error ? searchError.message : 'An error occurred while searching'}
+        onRetry={() => refetchSearch()}
+      />
+    );
+  }
+
   if (!filteredCategories || filteredCategories.length === 0) {
     if (debouncedSearch) {
       return (
@@ -137,6 +165,24 @@ export function MenuGrid() {
       );
     }
 
+    if (hasCatalogFilters(filters)) {
+      return (
+        <EmptyState
+          title="No items match your filters"
+          message="Try widening the price range or removing some filters."
+          action={
+            <button
+              type="button"
+              onClick={() => setFilters({})}
+              className="text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+            >
+              Clear filters
+            </button>
+          }
+        />
+      );
+    }
+
     return (
       <EmptyState
         title="No menu items available"
@@ -1,18 +1,30 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import type { MenuItem as MenuItemType } from '@per-diem/shared-types';
+import type { MenuItem as MenuItemType, MenuItemVariation } from '@per-diem/shared-types';
 import { Card } from '../components/Card';
 
 interface MenuItemProps {
   item: MenuItemType;
 }
 
+// Variations without a fixed price are shown as a prompt instead of a fake $0.00
+function displayPrice(variation: MenuItemVariation): string {
+  if (variation.priceFormatted !== null) return variation.priceFormatted;
+  return variation.pricing_type === 'VARIABLE_PRICING' ? 'Market price' : 'Ask staff';
+}
+
+// A variation can't be ordered when it isn't offered here or its stock has run out
+function isUnavailable(variation: MenuItemVariation): boolean {
+  return variation.is_available === false || variation.in_stock === false;
+}
+
 export function MenuItem({ item }: MenuItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [imageError, setImageError] = useState(false);
 
   const hasLongDescription = (item.description?.length || 0) > 100;
   const displayDescription = isExpanded ? item.description : item.description?.slice(0, 100);
+  const isSoldOut = item.in_stock === false;
 
   return (
     <motion.div
@@ -30,7 +42,7 @@ export function MenuItem({ item }: MenuItemProps) {
             <img
               src={item.image_url}
               alt={item.name}
-              className="w-full h-full object-cover"
+              className={`w-full h-full object-cover ${isSoldOut ? 'grayscale opacity-60' : ''}`}
               onError={() => setImageError(true)}
               loading="lazy"
             />
@@ -59,11 +71,16 @@ export function MenuItem({ item }: MenuItemProps) {
           {/* Name */}
           <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-2">{item.name}</h3>
 
-          {/* Category badge */}
-          <div className="mb-2">
+          {/* Category and stock badges */}
+          <div className="mb-2 flex flex-wrap gap-2">
             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
               {item.category}
             </span>
+            {isSoldOut && (
+              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                Sold out
+              </span>
+            )}
           </div>
 
           {/* Description */}
@@ -92,19 +109,31 @@ export function MenuItem({ item }: MenuItemProps) {
                 {item.variations.length > 1 ? 'Options' : 'Price'}
               </h4>
               <div className="flex flex-wrap gap-2">
-                {item.variations.map((variation) => (
-                  <div
-                    key={variation.id}
-                    className="flex items-center justify-between bg-gray-50 dark:bg-gray-700 rounded-lg px-3 py-2 min-w-[100px]"
-                  >
-                    {variation.name && (
-                      <span className="text-sm text-gray-700 dark:text-gray-300 mr-2">{variation.name}</span>
-                    )}
-                    <span className="text-sm font-bold text-gray-900 dark:text-gray-100">
-                      {variation.priceFormatted}
-                    </span>
-                  </div>
-                ))}
+                {item.variations.map((variation) => {
+                  const unavailable = isUnavailable(variation);
+                  return (
+                    <div
+                      key={variation.id}
+                      data-testid="menu-item-variation"
+                      aria-disabled={unavailable || undefined}
+                      className={`flex items-center justify-between bg-gray-50 dark:bg-gray-700 rounded-lg px-3 py-2 min-w-[100px] ${
+                        unavailable ? 'opacity-50 cursor-not-allowed' : ''
+                      }`}
+                    >
+                      {variation.name && (
+                        <span className="text-sm text-gray-700 dark:text-gray-300 mr-2">{variation.name}</span>
+                      )}
+                      <span
+                        className={`text-sm font-bold text-gray-900 dark:text-gray-100 ${
+                          unavailable ? 'line-through' : ''
+                        }`}
+                      >
+                        {displayPrice(variation)}
+                      </span>
+                      {unavailable && <span className="sr-only"> (sold out)</span>}
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
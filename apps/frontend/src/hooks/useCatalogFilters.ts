@@ -0,0 +1,92 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { type CatalogFilters, type DietaryTag, DIETARY_TAGS } from '@per-diem/shared-types';
+
+const FILTERS_CHANGED_EVENT = 'catalogfilterschange';
+
+function parsePrice(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+/**
+ * Read catalog filters from a URL query string.
+ * Unknown dietary tags and malformed prices are dropped.
+ */
+export function parseCatalogFilters(search: string): CatalogFilters {
+  const params = new URLSearchParams(search);
+  const minPrice = parsePrice(params.get('min_price'));
+  const maxPrice = parsePrice(params.get('max_price'));
+  const categoryIds = parseList(params.get('category_ids'));
+  const dietary = parseList(params.get('dietary')).filter((tag): tag is DietaryTag =>
+    DIETARY_TAGS.includes(tag as DietaryTag),
+  );
+
+  return orderPriceRange({
+    ...(minPrice !== undefined && { min_price: minPrice }),
+    ...(maxPrice !== undefined && { max_price: maxPrice }),
+    ...(categoryIds.length > 0 && { category_ids: categoryIds }),
+    ...(dietary.length > 0 && { dietary }),
+  });
+}
+
+/**
+ * Swap the price bounds when the minimum is above the maximum, so a range
+ * entered the wrong way round still matches items instead of none
+ */
+export function orderPriceRange(filters: CatalogFilters): CatalogFilters {
+  const { min_price: min, max_price: max } = filters;
+  if (min === undefined || max === undefined || min <= max) return filters;
+  return { ...filters, min_price: max, max_price: min };
+}
+
+/**
+ * Write catalog filters into a URL query string, keeping unrelated params
+ */
+export function serializeCatalogFilters(filters: CatalogFilters, search: string): string {
+  const params = new URLSearchParams(search);
+  const set = (key: string, value: string | undefined) => {
+    if (value) params.set(key, value);
+    else params.delete(key);
+  };
+
+  set('min_price', filters.min_price?.toString());
+  set('max_price', filters.max_price?.toString());
+  set('category_ids', filters.category_ids?.join(','));
+  set('dietary', filters.dietary?.join(','));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(FILTERS_CHANGED_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(FILTERS_CHANGED_EVENT, onChange);
+  };
+}
+
+/**
+ * Catalog filters kept in the page URL, so filtered menus can be shared
+ * and survive reloads. Every component using this hook stays in sync.
+ * @returns Current filters and a setter that replaces them
+ */
+export function useCatalogFilters() {
+  const search = useSyncExternalStore(subscribe, () => window.location.search);
+  const filters = useMemo(() => parseCatalogFilters(search), [search]);
+
+  const setFilters = useCallback((next: CatalogFilters) => {
+    const url = new URL(window.location.href);
+    url.search = serializeCatalogFilters(orderPriceRange(next), url.search);
+    window.history.replaceState(window.history.state, '', url);
+    window.dispatchEvent(new Event(FILTERS_CHANGED_EVENT));
+  }, []);
+
+  return { filters, setFilters };
+}
@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { CatalogChangedEvent } from '@per-diem/shared-types';
+import { catalogStreamUrl } from '../services/api';
+
+/**
+ * Subscribe to the backend's catalog change stream for a location and
+ * invalidate its menu queries when a change arrives, so the menu refreshes
+ * without waiting for `staleTime` to run out.
+ *
+ * After a dropped connection comes back the menu is invalidated too, since
+ * changes may have been missed while it was down.
+ * @param locationId - Location to watch; nothing is opened while null
+ */
+export function useCatalogStream(locationId: string | null): void {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!locationId || typeof EventSource === 'undefined') return;
+
+    const invalidate = (type?: CatalogChangedEvent['type']) => {
+      queryClient.invalidateQueries({ queryKey: ['catalog', locationId] });
+      queryClient.invalidateQueries({ queryKey: ['catalog-search', locationId] });
+      // Stock changes don't move items between categories
+      if (type !== 'inventory') {
+        queryClient.invalidateQueries({ queryKey: ['categories', locationId] });
+      }
+    };
+
+    const source = new EventSource(catalogStreamUrl(locationId));
+    let hasConnected = false;
+
+    source.addEventListener('open', () => {
+      if (hasConnected) invalidate();
+      hasConnected = true;
+    });
+    source.addEventListener('catalog.changed', (message) => {
+      const event = JSON.parse((message as MessageEvent<string>).data) as CatalogChangedEvent;
+      invalidate(event.type);
+    });
+
+    return () => source.close();
+  }, [locationId, queryClient]);
+}
@@ -6,6 +6,9 @@ import type {
   LocationsResponse,
   CategoriesResponse,
   CatalogResponse,
+  CatalogSearchResponse,
+  CatalogSearchResult,
+  CatalogFilters,
 } from '@per-diem/shared-types';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
@@ -17,6 +20,52 @@ const apiClient = axios.create({
   headers: {
     'Content-Type': 'application/json',
   },
+  // 304 Not Modified is answered from the ETag cache below
+  validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+});
+
+// ─── Conditional GETs ────────────────────────────────────────
+
+/** How many responses the ETag cache keeps; the least recently used go first. */
+const MAX_ETAG_ENTRIES = 50;
+
+/**
+ * Last body and ETag per request URL. Repeat GETs send If-None-Match, and
+ * a 304 reuses the stored body instead of downloading it again. Sending
+ * If-None-Match also makes the browser bypass its own HTTP cache, so a
+ * refetch after a catalog change always reaches the server.
+ */
+const etagCache = new Map<string, { etag: string; data: unknown }>();
+
+apiClient.interceptors.request.use((config) => {
+  if (config.method === 'get') {
+    const cached = etagCache.get(apiClient.getUri(config));
+    if (cached) config.headers.set('If-None-Match', cached.etag);
+  }
+  return config;
+});
+
+apiClient.interceptors.response.use((response) => {
+  if (response.config.method !== 'get') return response;
+
+  const url = apiClient.getUri(response.config);
+  const cached = etagCache.get(url);
+  if (response.status === 304 && cached) {
+    // Re-insert so the entry counts as recently used
+    etagCache.delete(url);
+    etagCache.set(url, cached);
+    return { ...response, status: 200, data: cached.data };
+  }
+
+  const etag = response.headers['etag'];
+  if (typeof etag === 'string') {
+    etagCache.delete(url);
+    etagCache.set(url, { etag, data: response.data });
+    if (etagCache.size > MAX_ETAG_ENTRIES) {
+      etagCache.delete(etagCache.keys().next().value as string);
+    }
+  }
+  return response;
 });
 
 // Error handling helper
@@ -75,12 +124,16 @@ export async function fetchCategories(locationId: string): Promise<Category[]> {
 }
 
 /**
- * Fetch full catalog (items grouped by category) for a specific location
+ * Fetch full catalog (items grouped by category) for a specific location,
+ * optionally narrowed by price, category and dietary filters
  */
-export async function fetchCatalog(locationId: string): Promise<CategoryGroup[]> {
+export async function fetchCatalog(
+  locationId: string,
+  filters: CatalogFilters = {},
+): Promise<CategoryGroup[]> {
   try {
     const response = await apiClient.get<CatalogResponse>('/catalog', {
-      params: { location_id: locationId },
+      params: { location_id: locationId, ...filters },
     });
     return response.data.categories;
   } catch (error) {
@@ -88,4 +141,28 @@ export async function fetchCatalog(locationId: string): Promise<CategoryGroup[]>
   }
 }
 
+/**
+ * Search a location's menu on the server (ranked, typo tolerant)
+ */
+export async function searchCatalog(
+  locationId: string,
+  query: string,
+): Promise<CatalogSearchResult[]> {
+  try {
+    const response = await apiClient.get<CatalogSearchResponse>('/catalog/search', {
+      params: { location_id: locationId, q: query },
+    });
+    return response.data.results;
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * URL of the server-sent events stream announcing menu changes at a location
+ */
+export function catalogStreamUrl(locationId: string): string {
+  return `${API_BASE_URL}/api/catalog/stream?location_id=${encodeURIComponent(locationId)}`;
+}
+
 export default apiClient;
@@ -8,6 +8,9 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src'),
     },
+    // Read @per-diem/shared-types from its source, so dev needs no prior build
+    // and picks up edits to it straight away
+    conditions: ['source'],
   },
   server: {
     port: 5173,
@@ -16,24 +16,106 @@ export interface SquareAddress {
   country?: string;
 }
 
+export type SquareDayOfWeek = 'SUN' | 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT';
+
+export interface SquareBusinessHoursPeriod {
+  day_of_week: SquareDayOfWeek;
+  start_local_time: string; // "HH:MM:SS" in the location's timezone
+  end_local_time: string; // may be earlier than start for periods past midnight
+}
+
 export interface SquareLocation {
   id: string;
   name: string;
   address?: SquareAddress;
   timezone?: string;
+  business_hours?: {
+    periods?: SquareBusinessHoursPeriod[];
+  };
   status: 'ACTIVE' | 'INACTIVE';
+  country?: string; // ISO 3166-1 alpha-2, e.g. "CA"
+  language_code?: string; // BCP 47, e.g. "en-CA"
+  currency?: string; // ISO 4217, e.g. "CAD"
 }
 
 export interface SquareCatalogVariation {
   type: 'ITEM_VARIATION';
   id: string;
+  present_at_all_locations?: boolean;
+  present_at_location_ids?: string[];
+  absent_at_location_ids?: string[];
   item_variation_data: {
+    item_id?: string; // parent ITEM
     name: string;
     pricing_type: 'FIXED_PRICING' | 'VARIABLE_PRICING';
     price_money?: SquareMoney;
+    item_option_values?: SquareItemOptionValueReference[];
+    location_overrides?: SquareItemVariationLocationOverride[];
+  };
+}
+
+/** Per-location price and stock settings for a variation. */
+export interface SquareItemVariationLocationOverride {
+  location_id: string;
+  price_money?: SquareMoney;
+  pricing_type?: 'FIXED_PRICING' | 'VARIABLE_PRICING';
+  sold_out?: boolean;
+  track_inventory?: boolean;
+}
+
+export interface SquareItemOptionValueReference {
+  item_option_id: string;
+  item_option_value_id: string;
+}
+
+export interface SquareCatalogModifier {
+  type: 'MODIFIER';
+  id: string;
+  modifier_data: {
+    name: string;
+    price_money?: SquareMoney;
+    modifier_list_id?: string;
+    ordinal?: number;
+  };
+}
+
+export interface SquareCatalogModifierList {
+  type: 'MODIFIER_LIST';
+  id: string;
+  modifier_list_data: {
+    name: string;
+    selection_type?: 'SINGLE' | 'MULTIPLE';
+    modifiers?: SquareCatalogModifier[];
+  };
+}
+
+export interface SquareCatalogItemOptionValue {
+  type: 'ITEM_OPTION_VAL';
+  id: string;
+  item_option_value_data: {
+    item_option_id?: string;
+    name: string;
+    ordinal?: number;
   };
 }
 
+export interface SquareCatalogItemOption {
+  type: 'ITEM_OPTION';
+  id: string;
+  item_option_data: {
+    name: string;
+    display_name?: string;
+    values?: SquareCatalogItemOptionValue[];
+  };
+}
+
+export interface SquareItemModifierListInfo {
+  modifier_list_id: string;
+  min_selected_modifiers?: number; // -1 means "not set"
+  max_selected_modifiers?: number; // -1 means "not set"
+  enabled?: boolean;
+}
+
 export interface SquareCatalogImage {
   type: 'IMAGE';
   id: string;
@@ -52,36 +134,76 @@ export interface SquareCatalogCategory {
   };
 }
 
+export interface SquareCustomAttributeValue {
+  name?: string;
+  key?: string;
+  type?: 'STRING' | 'BOOLEAN' | 'NUMBER' | 'SELECTION';
+  string_value?: string;
+  boolean_value?: boolean;
+}
+
+export interface SquareDietaryPreference {
+  type: 'STANDARD' | 'CUSTOM';
+  standard_name?: string; // e.g. "VEGAN", "GLUTEN_FREE"
+  custom_name?: string;
+}
+
 export interface SquareCatalogItem {
   type: 'ITEM';
   id: string;
   present_at_all_locations?: boolean;
   present_at_location_ids?: string[];
+  custom_attribute_values?: Record<string, SquareCustomAttributeValue>;
   item_data: {
     name: string;
     description?: string;
     category_id?: string;
     image_ids?: string[];
     variations?: SquareCatalogVariation[];
+    modifier_list_info?: SquareItemModifierListInfo[];
+    item_options?: Array<{ item_option_id: string }>;
+    food_and_beverage_details?: {
+      dietary_preferences?: SquareDietaryPreference[];
+    };
   };
 }
 
-export type SquareCatalogObject =
+/** Metadata Square sets on every catalog object */
+export interface SquareCatalogObjectMeta {
+  updated_at?: string;
+  version?: number;
+  is_deleted?: boolean; // only returned with include_deleted_objects
+}
+
+export type SquareCatalogObject = (
   | SquareCatalogItem
   | SquareCatalogCategory
   | SquareCatalogImage
-  | SquareCatalogVariation;
+  | SquareCatalogVariation
+  | SquareCatalogModifierList
+  | SquareCatalogModifier
+  | SquareCatalogItemOption
+  | SquareCatalogItemOptionValue
+) &
+  SquareCatalogObjectMeta;
 
 export interface SquareSearchCatalogResponse {
   objects?: SquareCatalogObject[];
   related_objects?: SquareCatalogObject[];
   cursor?: string;
+  latest_time?: string; // catalog version time the results are current as of
 }
 
 export interface SquareListLocationsResponse {
   locations?: SquareLocation[];
 }
 
+/** Response of POST /v2/inventory/counts/batch-retrieve */
+export interface SquareBatchRetrieveInventoryCountsResponse {
+  counts?: SquareInventoryCount[];
+  cursor?: string;
+}
+
 // ============================================================
 // API Response Types (what the frontend receives)
 // ============================================================
@@ -97,13 +219,58 @@ export interface Location {
   };
   timezone: string;
   status: 'ACTIVE' | 'INACTIVE';
+  locale: string; // BCP 47 locale used to format prices, e.g. "en-GB"
+  currency?: string; // ISO 4217 currency code, e.g. "GBP"
+  business_hours: BusinessHoursPeriod[];
+  is_open_now: boolean | null; // null when the location publishes no business hours
+  closes_at: string | null; // ISO instant the current opening ends, when open
+  next_open_at: string | null; // ISO instant of the next opening, when closed
 }
 
+export type BusinessHoursPeriod = SquareBusinessHoursPeriod;
+
 export interface MenuItemVariation {
+  id: string;
+  name: string;
+  pricing_type: 'FIXED_PRICING' | 'VARIABLE_PRICING';
+  priceDollars: number | null; // major units (dollars, pounds, ...); null for variable pricing or no price
+  priceFormatted: string | null; // formatted in the money's currency and the location's locale
+  price_amount: number | null; // raw minor units (cents, pence, ...) as Square reports them
+  price_currency: string | null; // ISO 4217 code, e.g. "CAD"
+  is_available?: boolean; // set when scoped to a location: present there and not sold out
+  option_value_ids?: string[]; // MenuItemOptionValue IDs this variation represents
+  in_stock?: boolean; // set when Square tracks inventory for the variation at the location
+  quantity_remaining?: number; // IN_STOCK quantity at the location, when tracked
+}
+
+export interface MenuItemModifier {
   id: string;
   name: string;
   priceDollars: number;
   priceFormatted: string;
+  price_amount: number; // raw minor units
+  price_currency: string;
+}
+
+export interface MenuItemModifierList {
+  id: string;
+  name: string;
+  selection_type: 'SINGLE' | 'MULTIPLE';
+  min_selected: number;
+  max_selected: number; // never exceeds modifiers.length
+  modifiers: MenuItemModifier[];
+}
+
+export interface MenuItemOptionValue {
+  id: string;
+  name: string;
+}
+
+/** A choice (e.g. "Milk type") that selects which variation is ordered. Exactly one value is picked. */
+export interface MenuItemOption {
+  id: string;
+  name: string;
+  values: MenuItemOptionValue[];
 }
 
 export interface MenuItem {
@@ -112,13 +279,67 @@ export interface MenuItem {
   description?: string;
   category: string;
   image_url?: string;
+  image_urls?: string[]; // every image, in Square order (item detail only)
   variations: MenuItemVariation[];
+  modifier_lists?: MenuItemModifierList[]; // omitted when the item has no add-ons
+  options?: MenuItemOption[]; // omitted when the item has no item options
+  dietary_tags?: DietaryTag[]; // omitted when the item has no dietary labels
+  in_stock?: boolean; // false when every variation is sold out; omitted when stock is untracked
 }
 
-export interface CategoryGroup {
+/** Dietary labels read from Square dietary preferences or custom attributes */
+export type DietaryTag =
+  | 'vegetarian'
+  | 'vegan'
+  | 'gluten_free'
+  | 'dairy_free'
+  | 'nut_free'
+  | 'halal'
+  | 'kosher';
+
+/** Every supported dietary tag, in display order */
+export const DIETARY_TAGS = [
+  'vegetarian',
+  'vegan',
+  'gluten_free',
+  'dairy_free',
+  'nut_free',
+  'halal',
+  'kosher',
+] as const satisfies readonly DietaryTag[];
+
+/** A variation trimmed by a `fields=` query parameter; `id` is always kept */
+export type SparseMenuItemVariation = Pick<MenuItemVariation, 'id'> & Partial<MenuItemVariation>;
+
+/** An item trimmed by a `fields=` query parameter; `id` is always kept */
+export type SparseMenuItem = Pick<MenuItem, 'id'> &
+  Partial<Omit<MenuItem, 'variations'>> & { variations?: SparseMenuItemVariation[] };
+
+/** An item in a compact catalog: its category is referenced by ID instead of by name */
+export type CompactMenuItem = Omit<SparseMenuItem, 'category'> & { category_id: string };
+
+/** Optional filters accepted by GET /api/catalog */
+export interface CatalogFilters {
+  min_price?: number; // major units, inclusive
+  max_price?: number; // major units, inclusive
+  category_ids?: string[];
+  dietary?: DietaryTag[]; // item must carry every tag
+}
+
+/** Whether any catalog filter is set; without one the whole catalog is shown */
+export function hasCatalogFilters(filters: CatalogFilters): boolean {
+  return (
+    filters.min_price !== undefined ||
+    filters.max_price !== undefined ||
+    (filters.category_ids?.length ?? 0) > 0 ||
+    (filters.dietary?.length ?? 0) > 0
+  );
+}
+
+export interface CategoryGroup<Item = MenuItem> {
   category: string;
   categoryId: string;
-  items: MenuItem[];
+  items: Item[];
 }
 
 export interface Category {
@@ -155,14 +376,99 @@ export type ApiResult<T> = ApiResponse<T> | ApiError;
 
 export interface LocationsResponse {
   locations: Location[];
+  degraded?: boolean; // served from the last-known-good copy because Square is unavailable
 }
 
 export interface CategoriesResponse {
   categories: Category[];
+  degraded?: boolean; // served from the last-known-good copy because Square is unavailable
+  partial?: boolean; // Square's catalog was cut short by the page or time budget
+}
+
+export interface CatalogResponse<Item = MenuItem> {
+  categories: CategoryGroup<Item>[];
+  degraded?: boolean; // served from the last-known-good copy because Square is unavailable
+  partial?: boolean; // Square's catalog was cut short by the page or time budget
+  version?: number; // catalog version, for GET /api/catalog/changes?since_version=
+}
+
+/** GET /api/catalog?compact=true: one flat item list that references categories by ID */
+export interface CompactCatalogResponse {
+  categories: Category[]; // sorted by name, like the grouped response
+  items: CompactMenuItem[]; // in category order
+  degraded?: boolean;
+  partial?: boolean;
+  version?: number;
 }
 
-export interface CatalogResponse {
-  categories: CategoryGroup[];
+/** Added, updated and removed entries between two catalog versions */
+export interface CatalogDiff<T> {
+  added: T[];
+  updated: T[];
+  removed: string[]; // IDs
+}
+
+export interface CatalogChangesResponse {
+  location_id: string;
+  since_version: number;
+  version: number; // current version; pass it as since_version next time
+  resync_required: boolean; // since_version is unknown or too old: fetch GET /api/catalog again
+  items?: CatalogDiff<MenuItem>; // omitted when resync_required
+  categories?: CatalogDiff<Category>; // omitted when resync_required
+}
+
+export interface CatalogItemResponse<Item = MenuItem> {
+  item: Item;
+}
+
+/** Item field a search match was found in, in descending boost order */
+export type CatalogSearchField = 'name' | 'category' | 'variation' | 'description';
+
+/** Half-open character range [start, end) into the matched text */
+export interface CatalogSearchRange {
+  start: number;
+  end: number;
+}
+
+export interface CatalogSearchMatch {
+  field: CatalogSearchField;
+  text: string; // The field value the ranges point into (e.g. one variation's name)
+  ranges: CatalogSearchRange[];
+}
+
+export interface CatalogSearchResult<Item = MenuItem> {
+  item: Item;
+  score: number;
+  matches: CatalogSearchMatch[];
+}
+
+export interface CatalogSearchResponse<Item = MenuItem> {
+  query: string;
+  results: CatalogSearchResult<Item>[]; // Best match first
+}
+
+/** A last-known-good copy persisted on disk */
+export interface PersistedSnapshotInfo {
+  key: string; // Cache key, e.g. "catalog:LOC1" or "locations"
+  location_id?: string; // Set for per-location catalog and category snapshots
+  saved_at: string; // ISO 8601
+  age_seconds: number;
+}
+
+export interface SnapshotsResponse {
+  enabled: boolean; // Whether persistence is switched on (SNAPSHOT_STORE_ENABLED)
+  snapshots: PersistedSnapshotInfo[];
+}
+
+/** What a webhook changed: the menu itself, stock levels, or the location's settings */
+export type CatalogChangeType = 'catalog' | 'inventory' | 'location';
+
+/** `catalog.changed` event pushed on GET /api/catalog/stream */
+export interface CatalogChangedEvent {
+  type: CatalogChangeType;
+  location_id: string;
+  event_id: string; // Square webhook event that caused the change
+  changed_at: string; // ISO 8601
 }
 
 // ============================================================
@@ -180,3 +486,25 @@ export interface SquareWebhookEvent {
     object: Record<string, unknown>;
   };
 }
+
+/** `data.object` of a catalog.version.updated event */
+export interface SquareCatalogVersionUpdatedObject {
+  catalog_version?: {
+    updated_at?: string;
+  };
+}
+
+/** Inventory state of a catalog object at one location */
+export interface SquareInventoryCount {
+  catalog_object_id: string;
+  catalog_object_type?: string;
+  state: 'IN_STOCK' | 'SOLD' | 'WASTE' | 'RETURNED_BY_CUSTOMER' | string;
+  location_id: string;
+  quantity: string; // decimal string, e.g. "3" or "0.5"
+  calculated_at?: string;
+}
+
+/** `data.object` of an inventory.count.updated event */
+export interface SquareInventoryCountUpdatedObject {
+  inventory_counts?: SquareInventoryCount[];
+}